@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "TokenPurpose" ADD VALUE 'email_verification';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "verified_at" TIMESTAMP(3);
+
+-- Akun yang sudah ada sebelum fitur verifikasi dianggap terverifikasi
+UPDATE "users" SET "verified_at" = "created_at";
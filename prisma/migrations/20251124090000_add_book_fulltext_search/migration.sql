@@ -0,0 +1,11 @@
+-- AlterTable
+-- Bobot: judul (A) > penulis (B) > penerbit (C) > deskripsi (D)
+ALTER TABLE "books" ADD COLUMN     "search_vector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("writer", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("publisher", '')), 'C') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'D')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "books_search_vector_idx" ON "books" USING GIN ("search_vector");
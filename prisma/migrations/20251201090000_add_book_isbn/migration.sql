@@ -0,0 +1,12 @@
+-- DropIndex
+DROP INDEX "books_title_key";
+
+-- AlterTable
+ALTER TABLE "books" ADD COLUMN     "isbn_10" TEXT,
+ADD COLUMN     "isbn_13" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "books_isbn_13_key" ON "books"("isbn_13");
+
+-- CreateIndex
+CREATE INDEX "books_title_idx" ON "books"("title");
@@ -0,0 +1,124 @@
+-- CreateEnum
+CREATE TYPE "AuthorRole" AS ENUM ('author', 'editor', 'translator', 'illustrator');
+
+-- AlterTable
+ALTER TABLE "books" ADD COLUMN     "publisher_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "authors" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "normalized_name" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "deleted_at" TIMESTAMP(3),
+
+    CONSTRAINT "authors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "publishers" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "normalized_name" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "deleted_at" TIMESTAMP(3),
+
+    CONSTRAINT "publishers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "book_authors" (
+    "book_id" TEXT NOT NULL,
+    "author_id" TEXT NOT NULL,
+    "role" "AuthorRole" NOT NULL DEFAULT 'author',
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "book_authors_pkey" PRIMARY KEY ("book_id","author_id","role")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "authors_normalized_name_key" ON "authors"("normalized_name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "publishers_normalized_name_key" ON "publishers"("normalized_name");
+
+-- CreateIndex
+CREATE INDEX "book_authors_author_id_idx" ON "book_authors"("author_id");
+
+-- CreateIndex
+CREATE INDEX "books_publisher_id_idx" ON "books"("publisher_id");
+
+-- AddForeignKey
+ALTER TABLE "book_authors" ADD CONSTRAINT "book_authors_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "books"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "book_authors" ADD CONSTRAINT "book_authors_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "authors"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "books" ADD CONSTRAINT "books_publisher_id_fkey" FOREIGN KEY ("publisher_id") REFERENCES "publishers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Data migration: pindahkan string writer / publisher lama ke entitas.
+-- Normalisasi sama dengan normalizeName() di contributorService: huruf kecil, tanpa spasi & tanda baca.
+-- Kolom writer boleh berisi beberapa penulis dipisah koma, titik koma, atau "&".
+CREATE TEMP TABLE "_book_credits" AS
+SELECT b."id" AS "book_id",
+       btrim(part."name") AS "name",
+       lower(regexp_replace(part."name", '[^[:alnum:]]', '', 'g')) AS "normalized_name",
+       part."position"
+FROM "books" b
+CROSS JOIN LATERAL regexp_split_to_table(b."writer", '\s*[,;&]\s*') WITH ORDINALITY AS part("name", "position")
+WHERE regexp_replace(part."name", '[^[:alnum:]]', '', 'g') <> '';
+
+-- Satu author per nama ternormalisasi, nama tampilan = ejaan yang paling sering dipakai
+INSERT INTO "authors" ("id", "name", "normalized_name", "created_at", "updated_at")
+SELECT gen_random_uuid()::text, "name", "normalized_name", now(), now()
+FROM (
+    SELECT DISTINCT ON ("normalized_name") "normalized_name", "name"
+    FROM "_book_credits"
+    GROUP BY "normalized_name", "name"
+    ORDER BY "normalized_name", count(*) DESC, "name"
+) AS spellings;
+
+INSERT INTO "book_authors" ("book_id", "author_id", "role", "position")
+SELECT "book_id", "author_id", 'author', row_number() OVER (PARTITION BY "book_id" ORDER BY "position")
+FROM (
+    SELECT DISTINCT ON (c."book_id", a."id") c."book_id", a."id" AS "author_id", c."position"
+    FROM "_book_credits" c
+    JOIN "authors" a ON a."normalized_name" = c."normalized_name"
+    ORDER BY c."book_id", a."id", c."position"
+) AS credits;
+
+INSERT INTO "publishers" ("id", "name", "normalized_name", "created_at", "updated_at")
+SELECT gen_random_uuid()::text, "name", "normalized_name", now(), now()
+FROM (
+    SELECT DISTINCT ON ("normalized_name") "normalized_name", "name"
+    FROM (
+        SELECT btrim("publisher") AS "name",
+               lower(regexp_replace("publisher", '[^[:alnum:]]', '', 'g')) AS "normalized_name"
+        FROM "books"
+    ) AS names
+    WHERE "normalized_name" <> ''
+    GROUP BY "normalized_name", "name"
+    ORDER BY "normalized_name", count(*) DESC, "name"
+) AS spellings;
+
+UPDATE "books" b
+SET "publisher_id" = p."id",
+    "publisher" = p."name"
+FROM "publishers" p
+WHERE p."normalized_name" = lower(regexp_replace(b."publisher", '[^[:alnum:]]', '', 'g'));
+
+-- Samakan ejaan writer dengan nama author hasil dedup
+UPDATE "books" b
+SET "writer" = credits."writer"
+FROM (
+    SELECT ba."book_id", string_agg(a."name", ', ' ORDER BY ba."position") AS "writer"
+    FROM "book_authors" ba
+    JOIN "authors" a ON a."id" = ba."author_id"
+    GROUP BY ba."book_id"
+) AS credits
+WHERE credits."book_id" = b."id";
+
+DROP TABLE "_book_credits";
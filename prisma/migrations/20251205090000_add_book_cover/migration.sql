@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "books" ADD COLUMN     "cover_path" TEXT;
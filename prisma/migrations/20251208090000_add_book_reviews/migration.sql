@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "ReviewStatus" AS ENUM ('visible', 'hidden');
+
+-- AlterTable
+ALTER TABLE "books" ADD COLUMN     "rating_avg" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "rating_count" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "reviews" (
+    "id" TEXT NOT NULL,
+    "book_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "text" TEXT,
+    "status" "ReviewStatus" NOT NULL DEFAULT 'visible',
+    "moderation_reason" TEXT,
+    "moderated_by" TEXT,
+    "moderated_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "deleted_at" TIMESTAMP(3),
+
+    CONSTRAINT "reviews_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "reviews_rating_check" CHECK ("rating" BETWEEN 1 AND 5)
+);
+
+-- CreateIndex
+CREATE INDEX "books_rating_avg_idx" ON "books"("rating_avg");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reviews_book_id_user_id_key" ON "reviews"("book_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "reviews_book_id_status_idx" ON "reviews"("book_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "books"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
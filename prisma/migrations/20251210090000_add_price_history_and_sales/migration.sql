@@ -0,0 +1,63 @@
+-- AlterTable
+-- Order lama diisi dengan harga buku saat ini (harga historis memang belum tercatat)
+ALTER TABLE "order_items" ADD COLUMN     "unit_price" DOUBLE PRECISION;
+
+UPDATE "order_items" oi
+SET "unit_price" = b."price"
+FROM "books" b
+WHERE b."id" = oi."book_id";
+
+ALTER TABLE "order_items" ALTER COLUMN "unit_price" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "price_history" (
+    "id" TEXT NOT NULL,
+    "book_id" TEXT NOT NULL,
+    "old_price" DOUBLE PRECISION,
+    "new_price" DOUBLE PRECISION NOT NULL,
+    "changed_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "price_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "sales" (
+    "id" TEXT NOT NULL,
+    "label" TEXT,
+    "book_id" TEXT,
+    "genre_id" TEXT,
+    "sale_price" DOUBLE PRECISION,
+    "discount_percent" DOUBLE PRECISION,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "ends_at" TIMESTAMP(3) NOT NULL,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "deleted_at" TIMESTAMP(3),
+
+    CONSTRAINT "sales_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "price_history_book_id_created_at_idx" ON "price_history"("book_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "sales_book_id_starts_at_ends_at_idx" ON "sales"("book_id", "starts_at", "ends_at");
+
+-- CreateIndex
+CREATE INDEX "sales_genre_id_starts_at_ends_at_idx" ON "sales"("genre_id", "starts_at", "ends_at");
+
+-- AddForeignKey
+ALTER TABLE "price_history" ADD CONSTRAINT "price_history_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "books"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sales" ADD CONSTRAINT "sales_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "books"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sales" ADD CONSTRAINT "sales_genre_id_fkey" FOREIGN KEY ("genre_id") REFERENCES "genres"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Harga awal setiap buku yang sudah ada
+INSERT INTO "price_history" ("id", "book_id", "old_price", "new_price", "created_at")
+SELECT gen_random_uuid()::text, "id", NULL, "price", "created_at"
+FROM "books";
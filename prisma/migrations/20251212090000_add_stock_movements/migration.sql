@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "StockMovementType" AS ENUM ('initial', 'restock', 'sale', 'return', 'adjustment', 'write_off');
+
+-- CreateTable
+CREATE TABLE "stock_movements" (
+    "id" TEXT NOT NULL,
+    "book_id" TEXT NOT NULL,
+    "type" "StockMovementType" NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "balance_after" INTEGER NOT NULL,
+    "reason" TEXT,
+    "order_id" TEXT,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_movements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stock_movements_book_id_created_at_idx" ON "stock_movements"("book_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_order_id_idx" ON "stock_movements"("order_id");
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "books"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Saldo awal ledger = stok saat migration dijalankan
+INSERT INTO "stock_movements" ("id", "book_id", "type", "quantity", "balance_after", "reason", "created_at")
+SELECT gen_random_uuid()::text, "id", 'initial', "stock_quantity", "stock_quantity", 'Saldo awal saat ledger stok diaktifkan', now()
+FROM "books";
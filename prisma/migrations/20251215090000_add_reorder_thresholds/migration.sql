@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "NotificationType" AS ENUM ('low_stock');
+
+-- AlterTable
+ALTER TABLE "books" ADD COLUMN     "reorder_threshold" INTEGER;
+
+-- AlterTable
+ALTER TABLE "genres" ADD COLUMN     "default_reorder_threshold" INTEGER;
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "book_id" TEXT,
+    "data" JSONB,
+    "read_at" TIMESTAMP(3),
+    "read_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notifications_read_at_created_at_idx" ON "notifications"("read_at", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "books"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "book_copurchases" (
+    "book_id" TEXT NOT NULL,
+    "related_book_id" TEXT NOT NULL,
+    "count" INTEGER NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "book_copurchases_pkey" PRIMARY KEY ("book_id","related_book_id")
+);
+
+-- CreateIndex
+CREATE INDEX "book_copurchases_book_id_count_idx" ON "book_copurchases"("book_id", "count");
+
+-- AddForeignKey
+ALTER TABLE "book_copurchases" ADD CONSTRAINT "book_copurchases_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "books"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "book_copurchases" ADD CONSTRAINT "book_copurchases_related_book_id_fkey" FOREIGN KEY ("related_book_id") REFERENCES "books"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Hitungan awal dari seluruh order yang sudah ada
+INSERT INTO "book_copurchases" ("book_id", "related_book_id", "count", "updated_at")
+SELECT a."book_id", b."book_id", COUNT(DISTINCT a."order_id"), now()
+FROM "order_items" a
+JOIN "order_items" b ON b."order_id" = a."order_id" AND b."book_id" <> a."book_id"
+GROUP BY a."book_id", b."book_id";
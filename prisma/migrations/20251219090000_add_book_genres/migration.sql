@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "book_genres" (
+    "book_id" TEXT NOT NULL,
+    "genre_id" TEXT NOT NULL,
+
+    CONSTRAINT "book_genres_pkey" PRIMARY KEY ("book_id","genre_id")
+);
+
+-- CreateIndex
+CREATE INDEX "book_genres_genre_id_idx" ON "book_genres"("genre_id");
+
+-- AddForeignKey
+ALTER TABLE "book_genres" ADD CONSTRAINT "book_genres_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "books"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "book_genres" ADD CONSTRAINT "book_genres_genre_id_fkey" FOREIGN KEY ("genre_id") REFERENCES "genres"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Genre utama yang sudah ada menjadi tag pertama setiap buku
+INSERT INTO "book_genres" ("book_id", "genre_id")
+SELECT "id", "genre_id" FROM "books";
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "genres" ADD COLUMN     "parent_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "genres_parent_id_idx" ON "genres"("parent_id");
+
+-- AddForeignKey
+ALTER TABLE "genres" ADD CONSTRAINT "genres_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "genres"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "books" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "genres" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- Versi baris dinaikkan di database supaya semua jalur tulis (stok, rating, sinkron nama penulis, dll.)
+-- ikut mengubah ETag tanpa harus diingat di setiap query aplikasi
+CREATE FUNCTION "bump_row_version"() RETURNS trigger AS $$
+BEGIN
+    NEW."version" := OLD."version" + 1;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "books_bump_version" BEFORE UPDATE ON "books"
+    FOR EACH ROW EXECUTE FUNCTION "bump_row_version"();
+
+CREATE TRIGGER "genres_bump_version" BEFORE UPDATE ON "genres"
+    FOR EACH ROW EXECUTE FUNCTION "bump_row_version"();
@@ -0,0 +1,178 @@
+import { Request, Response } from "express";
+import { PrismaClient, Role } from "@prisma/client";
+import {
+  API_KEY_SCOPES,
+  generateApiKey,
+  isValidScopeList,
+} from "../services/apiKeyService";
+
+const prisma = new PrismaClient();
+
+// Field yang aman dikembalikan (tanpa key_hash)
+const apiKeySelect = {
+  id: true,
+  user_id: true,
+  label: true,
+  prefix: true,
+  scopes: true,
+  last_used_at: true,
+  revoked_at: true,
+  created_at: true,
+  updated_at: true,
+};
+
+// Admin boleh mengelola key milik siapa pun, staff hanya miliknya sendiri
+const findOwnedApiKey = (req: Request, id: string) => {
+  const user = (req as any).user;
+  return prisma.api_keys.findFirst({
+    where: {
+      id,
+      ...(user.role === Role.admin ? {} : { user_id: user.id }),
+    },
+  });
+};
+
+// ✅ Create API Key
+export const createApiKey = async (req: Request, res: Response) => {
+  try {
+    const { label, scopes } = req.body;
+
+    if (!label || !isValidScopeList(scopes)) {
+      return res.status(400).json({
+        success: false,
+        message: `label wajib diisi dan scopes harus berupa array berisi: ${API_KEY_SCOPES.join(", ")}.`,
+      });
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const now = new Date();
+
+    const apiKey = await prisma.api_keys.create({
+      data: {
+        user_id: (req as any).user.id,
+        label,
+        prefix,
+        key_hash: keyHash,
+        scopes,
+        created_at: now,
+        updated_at: now,
+      },
+      select: apiKeySelect,
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: "API key berhasil dibuat. Simpan key ini, key tidak akan ditampilkan lagi.",
+      data: { ...apiKey, key },
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Get All API Key
+export const getApiKeys = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    const apiKeys = await prisma.api_keys.findMany({
+      where: user.role === Role.admin ? {} : { user_id: user.id },
+      select: apiKeySelect,
+      orderBy: { created_at: "desc" },
+    });
+
+    return res.json({
+      success: true,
+      message: "Daftar API key berhasil diambil.",
+      data: apiKeys,
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Update API Key (label / scopes)
+export const updateApiKey = async (req: Request, res: Response) => {
+  try {
+    const { api_key_id } = req.params;
+    const { label, scopes } = req.body;
+
+    const apiKey = await findOwnedApiKey(req, api_key_id);
+    if (!apiKey || apiKey.revoked_at) {
+      return res.status(404).json({
+        success: false,
+        message: "API key tidak ditemukan.",
+      });
+    }
+
+    if (scopes !== undefined && !isValidScopeList(scopes)) {
+      return res.status(400).json({
+        success: false,
+        message: `scopes harus berupa array berisi: ${API_KEY_SCOPES.join(", ")}.`,
+      });
+    }
+
+    const updated = await prisma.api_keys.update({
+      where: { id: api_key_id },
+      data: {
+        label: label || apiKey.label,
+        scopes: scopes ?? apiKey.scopes,
+        updated_at: new Date(),
+      },
+      select: apiKeySelect,
+    });
+
+    return res.json({
+      success: true,
+      message: "API key berhasil diperbarui.",
+      data: updated,
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Revoke API Key
+export const revokeApiKey = async (req: Request, res: Response) => {
+  try {
+    const { api_key_id } = req.params;
+
+    const apiKey = await findOwnedApiKey(req, api_key_id);
+    if (!apiKey || apiKey.revoked_at) {
+      return res.status(404).json({
+        success: false,
+        message: "API key tidak ditemukan.",
+      });
+    }
+
+    const revoked = await prisma.api_keys.update({
+      where: { id: api_key_id },
+      data: { revoked_at: new Date(), updated_at: new Date() },
+      select: apiKeySelect,
+    });
+
+    return res.json({
+      success: true,
+      message: "API key berhasil dicabut.",
+      data: revoked,
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
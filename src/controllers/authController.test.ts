@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Request, Response } from "express";
+import { changePassword, updateCurrentUser, verifyEmail } from "./authController";
+
+// Panggil handler dengan request palsu; kasus di sini ditolak sebelum menyentuh database
+const call = async (
+  handler: (req: Request, res: Response) => Promise<unknown>,
+  req: Record<string, unknown>
+) => {
+  const result = { status: 200, body: undefined as any };
+  const res = {
+    status: (code: number) => {
+      result.status = code;
+      return res;
+    },
+    json: (body: unknown) => {
+      result.body = body;
+      return res;
+    },
+  } as unknown as Response;
+
+  await handler({ user: { id: "u1" }, ...req } as unknown as Request, res);
+  return result;
+};
+
+test("PATCH /auth/me tanpa username maupun email ditolak", async () => {
+  const { status } = await call(updateCurrentUser, { body: {} });
+  assert.equal(status, 400);
+});
+
+test("PATCH /auth/me dengan username bukan teks ditolak 400", async () => {
+  for (const username of [["a", "b"], { $ne: "" }, 42]) {
+    const { status, body } = await call(updateCurrentUser, { body: { username } });
+    assert.equal(status, 400);
+    assert.equal(body.message, "username harus berupa teks.");
+  }
+});
+
+test("ganti password wajib menyertakan password lama dan baru", async () => {
+  assert.equal((await call(changePassword, { body: { new_password: "rahasia123" } })).status, 400);
+  assert.equal((await call(changePassword, { body: { current_password: "lama" } })).status, 400);
+});
+
+test("verifikasi email dengan token ganda (?token=a&token=b) ditolak 400, bukan 500", async () => {
+  assert.equal((await call(verifyEmail, { query: { token: ["a", "b"] } })).status, 400);
+  assert.equal((await call(verifyEmail, { query: {} })).status, 400);
+});
@@ -1,10 +1,52 @@
 import { Request, Response } from "express";
-import { PrismaClient } from "@prisma/client";
+import { PrismaClient, Prisma, Role, TokenPurpose } from "@prisma/client";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
+import {
+  signAccessToken,
+  signTwoFactorChallenge,
+  generateOpaqueToken,
+} from "../utils/token";
+import {
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeAllSessions,
+} from "../services/sessionService";
+import { issueUserToken, consumeUserToken } from "../services/userTokenService";
+import { sendMail, appUrl } from "../services/mailService";
+import {
+  LOGIN_LOCK_MS,
+  getLockRetryAfter,
+  recordFailedLogin,
+  resetFailedLogins,
+} from "../services/loginAttemptService";
+import { getTwoFactorRequiredRoles } from "../services/settingsService";
+import { recommendForUser } from "../services/recommendationService";
+import { parseLimit } from "../utils/pagination";
 
 const prisma = new PrismaClient();
 
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 jam
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000; // 24 jam
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Kirim link verifikasi ke email user (dipakai saat register & kirim ulang)
+const sendVerificationEmail = async (user: { id: string; email: string }) => {
+  const token = await issueUserToken(
+    user.id,
+    TokenPurpose.email_verification,
+    EMAIL_VERIFICATION_TTL_MS
+  );
+
+  await sendMail({
+    to: user.email,
+    subject: "Verifikasi email",
+    text:
+      `Klik link berikut untuk memverifikasi email kamu (berlaku 24 jam):\n` +
+      `${appUrl(`/verify-email?token=${token}`)}`,
+  });
+};
+
 export const register = async (req: Request, res: Response) => {
   try {
     const { username, email, password } = req.body;
@@ -17,6 +59,13 @@ export const register = async (req: Request, res: Response) => {
       });
     }
 
+    if (!EMAIL_REGEX.test(email)) {
+      return res.status(400).json({
+        success: false,
+        message: "Format email tidak valid.",
+      });
+    }
+
     // Cek email
     const existingUser = await prisma.users.findUnique({
       where: { email },
@@ -41,13 +90,17 @@ export const register = async (req: Request, res: Response) => {
       },
     });
 
+    await sendVerificationEmail(newUser);
+
     return res.status(201).json({
       success: true,
-      message: "Registrasi berhasil.",
+      message: "Registrasi berhasil. Cek email kamu untuk verifikasi akun.",
       data: {
         id: newUser.id,
         username: newUser.username,
         email: newUser.email,
+        role: newUser.role,
+        verified_at: newUser.verified_at,
         created_at: newUser.created_at,
       },
     });
@@ -61,7 +114,6 @@ export const register = async (req: Request, res: Response) => {
 };
 
 
-// login
 // login
 export const login = async (req: Request, res: Response) => {
   try {
@@ -85,18 +137,56 @@ export const login = async (req: Request, res: Response) => {
       });
     }
 
+    // Akun sedang dikunci karena terlalu banyak percobaan gagal
+    const retryAfter = getLockRetryAfter(user);
+    if (retryAfter) {
+      res.setHeader("Retry-After", retryAfter);
+      return res.status(423).json({
+        success: false,
+        message: `Akun dikunci sementara. Coba lagi dalam ${retryAfter} detik.`,
+        data: { locked_until: user.locked_until },
+      });
+    }
+
     const isPasswordValid = await bcrypt.compare(password, user.password);
     if (!isPasswordValid) {
+      const lockedUntil = await recordFailedLogin(user);
+
+      if (lockedUntil) {
+        res.setHeader("Retry-After", Math.ceil(LOGIN_LOCK_MS / 1000));
+        return res.status(423).json({
+          success: false,
+          message: "Terlalu banyak percobaan login gagal. Akun dikunci sementara.",
+          data: { locked_until: lockedUntil },
+        });
+      }
+
       return res.status(400).json({
         success: false,
         message: "Email atau password salah.",
       });
     }
 
-    // Generate JWT
-    const token = jwt.sign({ id: user.id }, process.env.JWT_SECRET as string, {
-      expiresIn: "1h",
-    });
+    // 2FA aktif → password saja belum cukup, lanjut ke POST /auth/login/2fa
+    if (user.totp_enabled_at) {
+      return res.status(200).json({
+        success: true,
+        message: "Masukkan kode autentikasi dua faktor.",
+        data: {
+          two_factor_required: true,
+          challenge_token: signTwoFactorChallenge(user.id),
+        },
+      });
+    }
+
+    await resetFailedLogins(user);
+
+    // Buat sesi + generate JWT (access token) dan refresh token
+    const { session, refreshToken } = await createSession(user.id);
+    const token = signAccessToken(user, session.id);
+
+    // Role wajib 2FA tapi belum enroll → aksi privileged diblokir sampai 2FA aktif
+    const requiredRoles = await getTwoFactorRequiredRoles();
 
     // ⬇️ Kirim juga data user ke frontend
     return res.status(200).json({
@@ -104,10 +194,14 @@ export const login = async (req: Request, res: Response) => {
       message: "Login berhasil.",
       data: {
         token,
+        refresh_token: refreshToken,
+        two_factor_setup_required: requiredRoles.includes(user.role),
         user: {
           id: user.id,
           username: user.username,
           email: user.email,
+          role: user.role,
+          verified_at: user.verified_at,
         },
       },
     });
@@ -125,19 +219,8 @@ export const login = async (req: Request, res: Response) => {
 // get current user
 export const getCurrentUser = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({
-        success: false,
-        message: "Token tidak ditemukan.",
-      });
-    }
-
-    const token = authHeader.split(" ")[1];
-    const decoded: any = jwt.verify(token, process.env.JWT_SECRET as string);
-
     const user = await prisma.users.findUnique({
-      where: { id: decoded.id },
+      where: { id: (req as any).user.id },
     });
     
     if (!user) {
@@ -154,6 +237,11 @@ export const getCurrentUser = async (req: Request, res: Response) => {
         id: user.id,
         username: user.username,
         email: user.email,
+        role: user.role,
+        verified_at: user.verified_at,
+        two_factor_enabled: !!user.totp_enabled_at,
+        failed_login_attempts: user.failed_login_attempts,
+        locked_until: user.locked_until,
         created_at: user.created_at,
       },
     });
@@ -164,4 +252,588 @@ export const getCurrentUser = async (req: Request, res: Response) => {
       message: "Terjadi kesalahan server.",
     });
   }
+};
+
+// Rekomendasi buku personal dari riwayat order user (?limit=, default 10)
+export const getMyRecommendations = async (req: Request, res: Response) => {
+  try {
+    const items = await recommendForUser((req as any).user.id, parseLimit(req.query.limit));
+
+    return res.status(200).json({
+      success: true,
+      message: "Rekomendasi buku berhasil diambil.",
+      data: items,
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// refresh token → access token baru + refresh token baru (rotasi)
+export const refreshToken = async (req: Request, res: Response) => {
+  try {
+    const { refresh_token } = req.body;
+
+    if (!refresh_token) {
+      return res.status(400).json({
+        success: false,
+        message: "refresh_token wajib diisi.",
+      });
+    }
+
+    const rotated = await rotateSession(refresh_token);
+    if (!rotated) {
+      return res.status(401).json({
+        success: false,
+        message: "Refresh token tidak valid atau sudah kedaluwarsa.",
+      });
+    }
+
+    const token = signAccessToken(
+      rotated.user,
+      rotated.session.id,
+      rotated.session.two_factor_verified
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: "Token berhasil diperbarui.",
+      data: {
+        token,
+        refresh_token: rotated.refreshToken,
+      },
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// logout dari sesi saat ini
+export const logout = async (req: Request, res: Response) => {
+  try {
+    await revokeSession((req as any).user.sid);
+
+    return res.status(200).json({
+      success: true,
+      message: "Logout berhasil.",
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// logout dari semua perangkat
+export const logoutAll = async (req: Request, res: Response) => {
+  try {
+    const result = await revokeAllSessions((req as any).user.id);
+
+    return res.status(200).json({
+      success: true,
+      message: "Logout dari semua perangkat berhasil.",
+      data: { revoked_sessions: result.count },
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// lupa password → kirim token reset ke email
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        message: "Email wajib diisi.",
+      });
+    }
+
+    const user = await prisma.users.findUnique({
+      where: { email },
+    });
+
+    // Respons selalu sama agar tidak membocorkan email mana yang terdaftar
+    if (user) {
+      const token = await issueUserToken(
+        user.id,
+        TokenPurpose.password_reset,
+        PASSWORD_RESET_TTL_MS
+      );
+
+      await sendMail({
+        to: user.email,
+        subject: "Reset password",
+        text:
+          `Gunakan link berikut untuk mengatur ulang password kamu (berlaku 1 jam):\n` +
+          `${appUrl(`/reset-password?token=${token}`)}\n\n` +
+          `Abaikan email ini jika kamu tidak meminta reset password.`,
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Jika email terdaftar, link reset password sudah dikirim.",
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// reset password dengan token dari email
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || !password) {
+      return res.status(400).json({
+        success: false,
+        message: "Token dan password wajib diisi.",
+      });
+    }
+
+    const userToken = await consumeUserToken(token, TokenPurpose.password_reset);
+    if (!userToken) {
+      return res.status(400).json({
+        success: false,
+        message: "Token reset tidak valid atau sudah kedaluwarsa.",
+      });
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+    await prisma.users.update({
+      where: { id: userToken.user_id },
+      data: { password: hashedPassword, updated_at: new Date() },
+    });
+
+    // Password berubah → semua sesi lama harus login ulang
+    await revokeAllSessions(userToken.user_id);
+
+    return res.status(200).json({
+      success: true,
+      message: "Password berhasil direset. Silakan login kembali.",
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// verifikasi email dengan token dari link
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    // ?token=a&token=b menghasilkan array → ditolak, hanya satu token string yang diterima
+    const token = req.query.token;
+
+    if (typeof token !== "string" || !token) {
+      return res.status(400).json({
+        success: false,
+        message: "Token verifikasi wajib diisi.",
+      });
+    }
+
+    const userToken = await consumeUserToken(token, TokenPurpose.email_verification);
+    if (!userToken) {
+      return res.status(400).json({
+        success: false,
+        message: "Token verifikasi tidak valid atau sudah kedaluwarsa.",
+      });
+    }
+
+    const user = await prisma.users.update({
+      where: { id: userToken.user_id },
+      data: { verified_at: new Date(), updated_at: new Date() },
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: "Email berhasil diverifikasi.",
+      data: {
+        id: user.id,
+        email: user.email,
+        verified_at: user.verified_at,
+      },
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// kirim ulang email verifikasi
+export const resendVerification = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        message: "Email wajib diisi.",
+      });
+    }
+
+    const user = await prisma.users.findUnique({
+      where: { email },
+    });
+
+    // Respons sama untuk email tidak terdaftar / sudah terverifikasi
+    if (user && !user.verified_at) {
+      await sendVerificationEmail(user);
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Jika akun belum terverifikasi, email verifikasi sudah dikirim ulang.",
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// update profil sendiri (username / email)
+export const updateCurrentUser = async (req: Request, res: Response) => {
+  try {
+    const { username, email } = req.body;
+
+    if (username === undefined && email === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: "Isi minimal salah satu dari username atau email.",
+      });
+    }
+
+    // username kosong / null → "Anonymous", selain itu harus teks
+    if (username !== undefined && username !== null && typeof username !== "string") {
+      return res.status(400).json({
+        success: false,
+        message: "username harus berupa teks.",
+      });
+    }
+
+    const user = await prisma.users.findUnique({
+      where: { id: (req as any).user.id },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User tidak ditemukan.",
+      });
+    }
+
+    const data: Prisma.usersUpdateInput = { updated_at: new Date() };
+    if (username !== undefined) data.username = username || "Anonymous";
+
+    const emailChanged = email !== undefined && email !== user.email;
+    if (emailChanged) {
+      if (typeof email !== "string" || !EMAIL_REGEX.test(email)) {
+        return res.status(400).json({
+          success: false,
+          message: "Format email tidak valid.",
+        });
+      }
+
+      const existingUser = await prisma.users.findUnique({
+        where: { email },
+      });
+
+      if (existingUser) {
+        return res.status(400).json({
+          success: false,
+          message: "Email sudah terdaftar.",
+        });
+      }
+
+      // Email baru harus diverifikasi ulang
+      data.email = email;
+      data.verified_at = null;
+    }
+
+    const updated = await prisma.users.update({
+      where: { id: user.id },
+      data,
+    });
+
+    if (emailChanged) {
+      await sendVerificationEmail(updated);
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: emailChanged
+        ? "Profil berhasil diperbarui. Cek email baru kamu untuk verifikasi."
+        : "Profil berhasil diperbarui.",
+      data: {
+        id: updated.id,
+        username: updated.username,
+        email: updated.email,
+        role: updated.role,
+        verified_at: updated.verified_at,
+      },
+    });
+  } catch (error: any) {
+    if (error?.code === "P2002") {
+      return res.status(400).json({
+        success: false,
+        message: "Email sudah terdaftar.",
+      });
+    }
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ganti password (wajib konfirmasi password lama)
+export const changePassword = async (req: Request, res: Response) => {
+  try {
+    const { current_password, new_password } = req.body;
+
+    if (!current_password || !new_password) {
+      return res.status(400).json({
+        success: false,
+        message: "current_password dan new_password wajib diisi.",
+      });
+    }
+
+    const user = await prisma.users.findUnique({
+      where: { id: (req as any).user.id },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User tidak ditemukan.",
+      });
+    }
+
+    const isPasswordValid = await bcrypt.compare(current_password, user.password);
+    if (!isPasswordValid) {
+      return res.status(400).json({
+        success: false,
+        message: "Password saat ini salah.",
+      });
+    }
+
+    const hashedPassword = await bcrypt.hash(new_password, 10);
+    await prisma.users.update({
+      where: { id: user.id },
+      data: { password: hashedPassword, updated_at: new Date() },
+    });
+
+    // Semua sesi lama dicabut, perangkat ini dapat sesi baru
+    await revokeAllSessions(user.id);
+    const twoFactorVerified = !!(req as any).user.mfa;
+    const { session, refreshToken } = await createSession(user.id, twoFactorVerified);
+    const token = signAccessToken(user, session.id, twoFactorVerified);
+
+    return res.status(200).json({
+      success: true,
+      message: "Password berhasil diubah. Sesi di perangkat lain sudah diakhiri.",
+      data: {
+        token,
+        refresh_token: refreshToken,
+      },
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// hapus akun sendiri → data pribadi dianonimkan, order tetap utuh
+export const deleteCurrentUser = async (req: Request, res: Response) => {
+  try {
+    const { password } = req.body;
+
+    if (!password) {
+      return res.status(400).json({
+        success: false,
+        message: "Password wajib diisi untuk konfirmasi.",
+      });
+    }
+
+    const user = await prisma.users.findUnique({
+      where: { id: (req as any).user.id },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User tidak ditemukan.",
+      });
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!isPasswordValid) {
+      return res.status(400).json({
+        success: false,
+        message: "Password salah.",
+      });
+    }
+
+    const now = new Date();
+    await prisma.$transaction([
+      prisma.users.update({
+        where: { id: user.id },
+        data: {
+          username: "Deleted User",
+          email: `deleted+${user.id}@deleted.invalid`,
+          // Password acak → akun tidak bisa dipakai login lagi
+          password: await bcrypt.hash(generateOpaqueToken(), 10),
+          verified_at: null,
+          deleted_at: now,
+          updated_at: now,
+        },
+      }),
+      prisma.user_tokens.updateMany({
+        where: { user_id: user.id, used_at: null },
+        data: { used_at: now },
+      }),
+    ]);
+
+    await revokeAllSessions(user.id);
+
+    return res.status(200).json({
+      success: true,
+      message: "Akun berhasil dihapus.",
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// update role user (khusus admin)
+export const updateUserRole = async (req: Request, res: Response) => {
+  try {
+    const { user_id } = req.params;
+    const { role } = req.body;
+
+    if (!role || !Object.values(Role).includes(role)) {
+      return res.status(400).json({
+        success: false,
+        message: `Role wajib diisi dan harus salah satu dari: ${Object.values(Role).join(", ")}.`,
+      });
+    }
+
+    // Admin tidak boleh menurunkan role dirinya sendiri (hindari sistem tanpa admin)
+    if (user_id === (req as any).user.id && role !== Role.admin) {
+      return res.status(400).json({
+        success: false,
+        message: "Admin tidak dapat mengubah role dirinya sendiri.",
+      });
+    }
+
+    const user = await prisma.users.findUnique({
+      where: { id: user_id },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User tidak ditemukan.",
+      });
+    }
+
+    const updated = await prisma.users.update({
+      where: { id: user_id },
+      data: { role, updated_at: new Date() },
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: "Role user berhasil diperbarui.",
+      data: {
+        id: updated.id,
+        username: updated.username,
+        email: updated.email,
+        role: updated.role,
+      },
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// buka kunci akun (khusus admin)
+export const unlockUser = async (req: Request, res: Response) => {
+  try {
+    const { user_id } = req.params;
+
+    const user = await prisma.users.findUnique({
+      where: { id: user_id },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User tidak ditemukan.",
+      });
+    }
+
+    const updated = await prisma.users.update({
+      where: { id: user_id },
+      data: { failed_login_attempts: 0, locked_until: null, updated_at: new Date() },
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: "Akun berhasil dibuka kuncinya.",
+      data: {
+        id: updated.id,
+        email: updated.email,
+        failed_login_attempts: updated.failed_login_attempts,
+        locked_until: updated.locked_until,
+      },
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
 };
\ No newline at end of file
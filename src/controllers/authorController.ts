@@ -0,0 +1,268 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import { listBooks } from "../services/bookListService";
+import { normalizeName, syncWriterColumn } from "../services/contributorService";
+import { HttpError } from "../utils/httpError";
+
+const prisma = new PrismaClient();
+
+// ✅ Create Author (auto-restore jika nama yang sama pernah di-soft delete)
+export const createAuthor = async (req: Request, res: Response) => {
+  try {
+    const { name } = req.body;
+
+    if (typeof name !== "string" || normalizeName(name) === "") {
+      return res.status(400).json({
+        success: false,
+        message: "Nama penulis wajib diisi.",
+      });
+    }
+
+    // "J.K. Rowling" dan "JK Rowling" dianggap penulis yang sama
+    const existing = await prisma.authors.findUnique({
+      where: { normalized_name: normalizeName(name) },
+    });
+
+    if (existing && existing.deleted_at === null) {
+      return res.status(409).json({
+        success: false,
+        message: `Penulis sudah terdaftar sebagai "${existing.name}".`,
+        data: existing,
+      });
+    }
+
+    if (existing) {
+      const restored = await prisma.authors.update({
+        where: { id: existing.id },
+        data: { name: name.trim(), deleted_at: null, updated_at: new Date() },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Penulis berhasil dibuat. (restore dari soft delete).",
+        data: restored,
+      });
+    }
+
+    const author = await prisma.authors.create({
+      data: {
+        name: name.trim(),
+        normalized_name: normalizeName(name),
+        created_at: new Date(),
+        updated_at: new Date(),
+      },
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: "Penulis berhasil dibuat.",
+      data: author,
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Get All Author (?search= untuk mencari nama)
+export const getAllAuthors = async (req: Request, res: Response) => {
+  try {
+    const search = req.query.search as string | undefined;
+
+    const authors = await prisma.authors.findMany({
+      where: {
+        deleted_at: null,
+        ...(search ? { name: { contains: search, mode: "insensitive" } } : {}),
+      },
+      orderBy: { name: "asc" },
+      include: { _count: { select: { books: true } } },
+    });
+
+    return res.json({
+      success: true,
+      message: "Daftar penulis berhasil diambil.",
+      data: authors,
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Get Author Detail
+export const getAuthorById = async (req: Request, res: Response) => {
+  try {
+    const { author_id } = req.params;
+
+    const author = await prisma.authors.findFirst({
+      where: { id: author_id, deleted_at: null },
+      include: { _count: { select: { books: true } } },
+    });
+
+    if (!author) {
+      return res.status(404).json({
+        success: false,
+        message: "Penulis tidak ditemukan.",
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: "Detail penulis berhasil diambil.",
+      data: author,
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Get Books by Author (filter, sorting & pagination sama dengan GET /books)
+export const getAuthorBooks = async (req: Request, res: Response) => {
+  try {
+    const { author_id } = req.params;
+
+    const author = await prisma.authors.findFirst({
+      where: { id: author_id, deleted_at: null },
+    });
+
+    if (!author) {
+      return res.status(404).json({
+        success: false,
+        message: "Penulis tidak ditemukan.",
+      });
+    }
+
+    const data = await listBooks(req.query as Record<string, string>, {
+      authors: { some: { author_id } },
+    });
+
+    return res.json({
+      success: true,
+      message: "Daftar buku penulis berhasil diambil.",
+      data,
+    });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ success: false, message: err.message });
+    }
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Update Author (ganti nama → kolom writer di buku ikut diperbarui)
+export const updateAuthor = async (req: Request, res: Response) => {
+  try {
+    const { author_id } = req.params;
+    const { name } = req.body;
+
+    const author = await prisma.authors.findFirst({
+      where: { id: author_id, deleted_at: null },
+    });
+
+    if (!author) {
+      return res.status(404).json({
+        success: false,
+        message: "Penulis tidak ditemukan.",
+      });
+    }
+
+    if (name !== undefined && (typeof name !== "string" || normalizeName(name) === "")) {
+      return res.status(400).json({
+        success: false,
+        message: "Nama penulis tidak boleh kosong.",
+      });
+    }
+
+    const updated = await prisma.authors.update({
+      where: { id: author_id },
+      data: {
+        name: name ? name.trim() : author.name,
+        normalized_name: name ? normalizeName(name) : author.normalized_name,
+        updated_at: new Date(),
+      },
+    });
+
+    if (updated.name !== author.name) {
+      await syncWriterColumn(author_id);
+    }
+
+    return res.json({
+      success: true,
+      message: "Penulis berhasil diperbarui.",
+      data: updated,
+    });
+  } catch (err: any) {
+    if (err?.code === "P2002") {
+      return res.status(409).json({
+        success: false,
+        message: "Penulis dengan nama ini sudah ada.",
+      });
+    }
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Soft Delete Author
+export const deleteAuthor = async (req: Request, res: Response) => {
+  try {
+    const { author_id } = req.params;
+
+    const author = await prisma.authors.findFirst({
+      where: { id: author_id, deleted_at: null },
+    });
+
+    if (!author) {
+      return res.status(404).json({
+        success: false,
+        message: "Penulis tidak ditemukan.",
+      });
+    }
+
+    // Pastikan tidak ada buku aktif yang masih mencantumkan penulis ini
+    const bookCount = await prisma.book_authors.count({
+      where: { author_id, book: { deleted_at: null } },
+    });
+
+    if (bookCount > 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Penulis tidak dapat dihapus karena masih tercantum di buku.",
+      });
+    }
+
+    const deleted = await prisma.authors.update({
+      where: { id: author_id },
+      data: { deleted_at: new Date(), updated_at: new Date() },
+    });
+
+    return res.json({
+      success: true,
+      message: "Penulis berhasil dihapus (soft delete).",
+      data: deleted,
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
@@ -0,0 +1,208 @@
+import { Request, Response } from "express";
+import { PrismaClient, Prisma } from "@prisma/client";
+import { iterateBooks, bookInclude } from "../services/bookListService";
+import {
+  EXPORT_FORMATS,
+  ExportColumn,
+  isExportFormat,
+  streamExport,
+} from "../services/exportService";
+import { HttpError } from "../utils/httpError";
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 500;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Kirim error JSON selama header belum terkirim, setelah itu hanya bisa memutus stream
+const handleExportError = (res: Response, err: unknown) => {
+  if (err instanceof HttpError && !res.headersSent) {
+    res.status(err.status).json({ success: false, message: err.message });
+    return;
+  }
+  console.error(err);
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+};
+
+const invalidFormat = (res: Response) =>
+  res.status(400).json({
+    success: false,
+    message: `format harus salah satu dari: ${EXPORT_FORMATS.join(", ")}.`,
+  });
+
+// ====== EXPORT BUKU (filter sama dengan getAllBooks) ======
+export const exportBooks = async (req: Request, res: Response) => {
+  const format = req.query.format || "csv";
+  if (!isExportFormat(format)) return invalidFormat(res);
+
+  type BookRow = Prisma.booksGetPayload<{ include: typeof bookInclude }>;
+  const columns: ExportColumn<BookRow>[] = [
+    { header: "id", value: (book) => book.id },
+    { header: "title", value: (book) => book.title },
+    { header: "isbn_13", value: (book) => book.isbn_13 },
+    { header: "isbn_10", value: (book) => book.isbn_10 },
+    { header: "writer", value: (book) => book.writer },
+    { header: "publisher", value: (book) => book.publisher },
+    { header: "publication_year", value: (book) => book.publication_year },
+    { header: "description", value: (book) => book.description },
+    { header: "price", value: (book) => book.price },
+    { header: "stock_quantity", value: (book) => book.stock_quantity },
+    { header: "genre_id", value: (book) => book.genre_id },
+    { header: "genre", value: (book) => book.genre?.name },
+    // Semua genre buku (termasuk genre utama), format sama dengan kolom import genre_ids
+    { header: "genre_ids", value: (book) => book.genres.map((link) => link.genre.id).join(",") },
+    { header: "genres", value: (book) => book.genres.map((link) => link.genre.name).join(", ") },
+    { header: "created_at", value: (book) => book.created_at },
+    { header: "updated_at", value: (book) => book.updated_at },
+  ];
+
+  try {
+    await streamExport(res, {
+      format,
+      filename: "books",
+      columns,
+      batches: iterateBooks(req.query as Record<string, string>, BATCH_SIZE),
+    });
+  } catch (err) {
+    handleExportError(res, err);
+  }
+};
+
+// ====== EXPORT GENRE ======
+export const exportGenres = async (req: Request, res: Response) => {
+  const format = req.query.format || "csv";
+  if (!isExportFormat(format)) return invalidFormat(res);
+
+  async function* batches() {
+    let cursor: string | undefined;
+    while (true) {
+      const batch = await prisma.genres.findMany({
+        where: { deleted_at: null },
+        take: BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        include: {
+          _count: { select: { book_links: { where: { book: { deleted_at: null } } } } },
+        },
+        orderBy: { id: "asc" },
+      });
+      if (batch.length === 0) return;
+      yield batch;
+      if (batch.length < BATCH_SIZE) return;
+      cursor = batch[batch.length - 1].id;
+    }
+  }
+
+  try {
+    await streamExport(res, {
+      format,
+      filename: "genres",
+      columns: [
+        { header: "id", value: (genre) => genre.id },
+        { header: "name", value: (genre) => genre.name },
+        { header: "book_count", value: (genre) => genre._count.book_links },
+        { header: "created_at", value: (genre) => genre.created_at },
+        { header: "updated_at", value: (genre) => genre.updated_at },
+      ],
+      batches: batches(),
+    });
+  } catch (err) {
+    handleExportError(res, err);
+  }
+};
+
+// ====== EXPORT TRANSAKSI (dengan totalAmount & avgPrice seperti getAllTransactions) ======
+// Filter opsional: from, to (tanggal order), user_id
+export const exportTransactions = async (req: Request, res: Response) => {
+  const format = req.query.format || "csv";
+  if (!isExportFormat(format)) return invalidFormat(res);
+
+  const { from, to, user_id } = req.query as Record<string, string>;
+  const fromDate = from ? new Date(from) : undefined;
+  const toDate = to ? new Date(to) : undefined;
+  if ([fromDate, toDate].some((date) => date && Number.isNaN(date.getTime()))) {
+    return res.status(400).json({
+      success: false,
+      message: "from dan to harus tanggal valid (mis. 2025-01-31).",
+    });
+  }
+
+  // to berupa tanggal saja (2025-01-31) = sampai akhir hari itu, bukan jam 00:00
+  const toFilter = !toDate
+    ? {}
+    : DATE_ONLY.test(to)
+    ? { lt: new Date(toDate.getTime() + 24 * 60 * 60 * 1000) }
+    : { lte: toDate };
+
+  const where: Prisma.ordersWhereInput = {
+    ...(user_id ? { user_id } : {}),
+    ...(fromDate || toDate
+      ? {
+          created_at: {
+            ...(fromDate ? { gte: fromDate } : {}),
+            ...toFilter,
+          },
+        }
+      : {}),
+  };
+
+  async function* batches() {
+    let cursor: string | undefined;
+    while (true) {
+      const orders = await prisma.orders.findMany({
+        where,
+        take: BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        include: {
+          user: { select: { id: true, username: true, email: true } },
+          order_items: true,
+        },
+        orderBy: [{ created_at: "desc" }, { id: "desc" }],
+      });
+      if (orders.length === 0) return;
+
+      yield orders.map((t) => {
+        const totalAmount = t.order_items.reduce(
+          (sum, item) => sum + item.quantity * item.unit_price,
+          0
+        );
+        const avgPrice =
+          t.order_items.length > 0
+            ? t.order_items.reduce((sum, item) => sum + item.unit_price, 0) /
+              t.order_items.length
+            : 0;
+        const totalQuantity = t.order_items.reduce((sum, item) => sum + item.quantity, 0);
+
+        return { ...t, totalAmount, avgPrice, totalQuantity };
+      });
+
+      if (orders.length < BATCH_SIZE) return;
+      cursor = orders[orders.length - 1].id;
+    }
+  }
+
+  try {
+    await streamExport(res, {
+      format,
+      filename: "transactions",
+      columns: [
+        { header: "id", value: (t) => t.id },
+        { header: "user_id", value: (t) => t.user_id },
+        { header: "username", value: (t) => t.user.username },
+        { header: "email", value: (t) => t.user.email },
+        { header: "item_count", value: (t) => t.order_items.length },
+        { header: "total_quantity", value: (t) => t.totalQuantity },
+        { header: "totalAmount", value: (t) => t.totalAmount },
+        { header: "avgPrice", value: (t) => t.avgPrice },
+        { header: "created_at", value: (t) => t.created_at },
+      ],
+      batches: batches(),
+    });
+  } catch (err) {
+    handleExportError(res, err);
+  }
+};
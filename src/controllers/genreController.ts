@@ -1,28 +1,72 @@
 import { Request, Response } from "express";
-import { PrismaClient } from "@prisma/client";
+import { PrismaClient, Prisma } from "@prisma/client";
+import { parseReorderThreshold } from "../utils/bookValidation";
+import { buildGenreTree, createsGenreCycle } from "../services/genreTreeService";
+import { entityTag, ifMatchSatisfied, isNotModified } from "../utils/etag";
+import { HttpError } from "../utils/httpError";
 
 const prisma = new PrismaClient();
 
+const genreDetailInclude = {
+  parent: { select: { id: true, name: true } },
+  children: { where: { deleted_at: null as null }, select: { id: true, name: true } },
+} satisfies Prisma.genresInclude;
+
+// ETag genre: versi baris + induk & subgenre yang ikut tampil di detail
+const genreEtag = (genre: Prisma.genresGetPayload<{ include: typeof genreDetailInclude }>) =>
+  entityTag(
+    genre.id,
+    genre.version,
+    genre.parent?.name,
+    ...genre.children.map((child) => `${child.id}:${child.name}`)
+  );
+
+const GENRE_MODIFIED_MESSAGE =
+  "Genre sudah diubah oleh pengguna lain sejak terakhir dimuat. Muat ulang lalu coba lagi.";
+
+// Validasi induk genre (dipakai create & update). Mengembalikan pesan error atau null.
+const validateParent = async (
+  parentId: string | null,
+  genreId?: string,
+  client: Prisma.TransactionClient = prisma
+) => {
+  if (!parentId) return null;
+
+  const parent = await client.genres.findFirst({ where: { id: parentId, deleted_at: null } });
+  if (!parent) return "Genre induk tidak ditemukan.";
+
+  if (genreId && (await createsGenreCycle(genreId, parentId, client))) {
+    return "parent_id tidak valid: genre tidak boleh menjadi induk dari dirinya sendiri atau turunannya.";
+  }
+
+  return null;
+};
+
 // ✅ Create Genre
 export const createGenre = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({
+    const { name, default_reorder_threshold, parent_id } = req.body;
+
+    if (!name) {
+      return res.status(400).json({
         success: false,
-        message: "Token tidak ditemukan.",
+        message: "Nama genre wajib diisi.",
       });
     }
 
-    const { name } = req.body;
-
-    if (!name) {
+    const threshold = parseReorderThreshold(default_reorder_threshold);
+    if (threshold === undefined) {
       return res.status(400).json({
         success: false,
-        message: "Nama genre wajib diisi.",
+        message: "default_reorder_threshold harus bilangan bulat dan tidak boleh negatif.",
       });
     }
 
+    const parentError = await validateParent(parent_id || null);
+    if (parentError) {
+      return res.status(400).json({ success: false, message: parentError });
+    }
+
     // Cek apakah genre dengan nama sama pernah ada
     const existing = await prisma.genres.findUnique({
       where: { name },
@@ -42,6 +86,9 @@ export const createGenre = async (req: Request, res: Response) => {
         where: { id: existing.id },
         data: {
           deleted_at: null,
+          // Ambang lama dipertahankan jika tidak dikirim ulang
+          ...(default_reorder_threshold !== undefined ? { default_reorder_threshold: threshold } : {}),
+          parent_id: parent_id || null,
           updated_at: new Date(),
         },
       });
@@ -57,6 +104,8 @@ export const createGenre = async (req: Request, res: Response) => {
     const genre = await prisma.genres.create({
       data: {
         name,
+        default_reorder_threshold: threshold,
+        parent_id: parent_id || null,
         created_at: new Date(),
         updated_at: new Date(),
         deleted_at: null,
@@ -81,14 +130,6 @@ export const createGenre = async (req: Request, res: Response) => {
 // ✅ Get All Genre
 export const getAllGenres = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({
-        success: false,
-        message: "Token tidak ditemukan.",
-      });
-    }
-    
     const genres = await prisma.genres.findMany({
       where: { deleted_at: null },
       orderBy: { created_at: "desc" },
@@ -108,21 +149,33 @@ export const getAllGenres = async (req: Request, res: Response) => {
   }
 };
 
+// ✅ Get Genre Tree (genre bersarang, mis. Programming > Languages > TypeScript)
+export const getGenreTree = async (req: Request, res: Response) => {
+  try {
+    const tree = await buildGenreTree();
+
+    return res.json({
+      success: true,
+      message: "Pohon genre berhasil diambil.",
+      data: tree,
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
 // ✅ Get Genre Detail
 export const getGenreById = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({
-        success: false,
-        message: "Token tidak ditemukan.",
-      });
-    }
-
     const { genre_id } = req.params;
 
     const genre = await prisma.genres.findFirst({
         where: { id: genre_id, deleted_at: null },
+        include: genreDetailInclude,
     });
 
     if (!genre) {
@@ -132,6 +185,12 @@ export const getGenreById = async (req: Request, res: Response) => {
       });
     }
 
+    const etag = genreEtag(genre);
+    res.setHeader("ETag", etag);
+    if (isNotModified(req, etag)) {
+      return res.status(304).end();
+    }
+
     return res.json({
       success: true,
       message: "Detail genre berhasil diambil.",
@@ -149,19 +208,21 @@ export const getGenreById = async (req: Request, res: Response) => {
 // ✅ Update Genre
 export const updateGenre = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({
+    const { genre_id } = req.params;
+    const { name, default_reorder_threshold, parent_id } = req.body;
+
+    // null → ikut DEFAULT_REORDER_THRESHOLD global
+    const threshold = parseReorderThreshold(default_reorder_threshold);
+    if (threshold === undefined) {
+      return res.status(400).json({
         success: false,
-        message: "Token tidak ditemukan.",
+        message: "default_reorder_threshold harus bilangan bulat dan tidak boleh negatif.",
       });
     }
 
-    const { genre_id } = req.params;
-    const { name } = req.body;
-
     const genre = await prisma.genres.findUnique({
       where: { id: genre_id },
+      include: genreDetailInclude,
     });
 
     if (!genre) {
@@ -171,20 +232,56 @@ export const updateGenre = async (req: Request, res: Response) => {
       });
     }
 
-    const updated = await prisma.genres.update({
-      where: { id: genre_id },
-      data: {
-        name: name || genre.name,
-        updated_at: new Date(),
+    // If-Match: tolak jika genre sudah berubah sejak client mengambil ETag-nya
+    if (!ifMatchSatisfied(req, genreEtag(genre))) {
+      return res.status(412).json({ success: false, message: GENRE_MODIFIED_MESSAGE });
+    }
+
+    // Cek siklus & update dalam satu transaksi serializable: dua PATCH bersamaan (A→B dan B→A)
+    // tidak bisa sama-sama lolos, salah satunya gagal dengan P2034
+    const updated = await prisma.$transaction(
+      async (tx) => {
+        // parent_id: null → jadikan genre level teratas
+        if (parent_id !== undefined) {
+          const parentError = await validateParent(parent_id || null, genre_id, tx);
+          if (parentError) throw new HttpError(400, parentError);
+        }
+
+        // Dengan If-Match, versi ikut jadi syarat update (berubah di antaranya → P2025 → 412)
+        return tx.genres.update({
+          where: { id: genre_id, ...(req.headers["if-match"] ? { version: genre.version } : {}) },
+          data: {
+            name: name || genre.name,
+            default_reorder_threshold:
+              default_reorder_threshold !== undefined ? threshold : genre.default_reorder_threshold,
+            parent_id: parent_id !== undefined ? parent_id || null : genre.parent_id,
+            updated_at: new Date(),
+          },
+          include: genreDetailInclude,
+        });
       },
-    });
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
 
+    res.setHeader("ETag", genreEtag(updated));
     return res.json({
       success: true,
       message: "Genre berhasil diperbarui.",
       data: updated,
     });
-  } catch (err) {
+  } catch (err: any) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ success: false, message: err.message });
+    }
+    if (err?.code === "P2025") {
+      return res.status(412).json({ success: false, message: GENRE_MODIFIED_MESSAGE });
+    }
+    if (err?.code === "P2034") {
+      return res.status(409).json({
+        success: false,
+        message: "Genre sedang diubah bersamaan oleh pengguna lain. Coba lagi.",
+      });
+    }
     console.error(err);
     return res.status(500).json({
       success: false,
@@ -194,21 +291,17 @@ export const updateGenre = async (req: Request, res: Response) => {
 };
 
 // ✅ Soft Delete Genre
+// Genre yang masih punya subgenre ditolak, kecuali ?reparent=true:
+// subgenre dipindah ke induk genre ini (atau jadi level teratas).
 export const deleteGenre = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({
-        success: false,
-        message: "Token tidak ditemukan.",
-      });
-    }
-    
     const { genre_id } = req.params;
+    const reparent = req.query.reparent === "true";
 
     // Pastikan genre ada
     const genre = await prisma.genres.findUnique({
       where: { id: genre_id },
+      include: genreDetailInclude,
     });
 
     if (!genre) {
@@ -218,9 +311,13 @@ export const deleteGenre = async (req: Request, res: Response) => {
       });
     }
 
-    // Pastikan tidak ada buku yang masih pakai genre ini
+    if (!ifMatchSatisfied(req, genreEtag(genre))) {
+      return res.status(412).json({ success: false, message: GENRE_MODIFIED_MESSAGE });
+    }
+
+    // Pastikan tidak ada buku yang masih pakai genre ini (sebagai genre utama maupun tambahan)
     const books = await prisma.books.findMany({
-      where: { genre_id },
+      where: { OR: [{ genre_id }, { genres: { some: { genre_id } } }] },
     });
 
     if (books.length > 0) {
@@ -230,18 +327,40 @@ export const deleteGenre = async (req: Request, res: Response) => {
       });
     }
 
-    // Soft delete → update kolom deleted_at
-    const deleted = await prisma.genres.update({
-      where: { id: genre_id },
-      data: { deleted_at: new Date(), updated_at: new Date() },
+    const children = await prisma.genres.count({
+      where: { parent_id: genre_id, deleted_at: null },
     });
 
+    if (children > 0 && !reparent) {
+      return res.status(400).json({
+        success: false,
+        message:
+          "Genre tidak dapat dihapus karena masih memiliki subgenre. Pindahkan subgenre dulu atau gunakan reparent=true.",
+      });
+    }
+
+    // Soft delete → update kolom deleted_at (subgenre naik satu level di transaksi yang sama)
+    const now = new Date();
+    const [, deleted] = await prisma.$transaction([
+      prisma.genres.updateMany({
+        where: { parent_id: genre_id, deleted_at: null },
+        data: { parent_id: genre.parent_id, updated_at: now },
+      }),
+      prisma.genres.update({
+        where: { id: genre_id, ...(req.headers["if-match"] ? { version: genre.version } : {}) },
+        data: { deleted_at: now, updated_at: now },
+      }),
+    ]);
+
     return res.json({
       success: true,
       message: "Genre berhasil dihapus (soft delete).",
       data: deleted,
     });
-  } catch (err) {
+  } catch (err: any) {
+    if (err?.code === "P2025") {
+      return res.status(412).json({ success: false, message: GENRE_MODIFIED_MESSAGE });
+    }
     console.error(err);
     return res.status(500).json({
       success: false,
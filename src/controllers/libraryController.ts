@@ -1,134 +1,151 @@
 import { Request, Response } from "express";
-import { PrismaClient, Prisma } from "@prisma/client";
+import { PrismaClient, Prisma, StockMovementType } from "@prisma/client";
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
+import { listBooks, bookInclude as bookDetailInclude } from "../services/bookListService";
+import { resolveAuthors, resolvePublisher } from "../services/contributorService";
+import { storeCover, deleteCover, withCover } from "../services/coverService";
+import { withEffectivePrice, priceHistoryEntry } from "../services/pricingService";
+import { setStockLevel, initialStockEntry } from "../services/stockService";
+import { getLowStockReport, SALES_VELOCITY_DAYS } from "../services/inventoryAlertService";
+import { recommendForBook } from "../services/recommendationService";
+import { getDescendantIds } from "../services/genreTreeService";
+import { parseLimit } from "../utils/pagination";
+import { HttpError } from "../utils/httpError";
+import {
+  validateBookInput,
+  bookIdentityWhere,
+  parseReorderThreshold,
+  parseGenreIds,
+  withPrimaryGenre,
+} from "../utils/bookValidation";
+import { parseIsbn } from "../utils/isbn";
+import { entityTag, ifMatchSatisfied, isNotModified } from "../utils/etag";
+import {
+  detectImportFormat,
+  parseImportFile,
+  importBooks as runBookImport,
+} from "../services/bookImportService";
 
 const prisma = new PrismaClient();
 
+// Bentuk response buku: URL cover + harga efektif (promo aktif)
+const presentBook = <T extends Parameters<typeof withCover>[0] & Parameters<typeof withEffectivePrice>[0]>(
+  book: T
+) => withEffectivePrice(withCover(book));
+
+// ETag buku = hash isi response detail. Nama genre, label / akhir promo, dll. bisa berubah
+// tanpa menyentuh baris books, jadi versi baris saja tidak cukup.
+const bookEtag = (book: Awaited<ReturnType<typeof presentBook>>) => entityTag(JSON.stringify(book));
+
+// ETag dari representasi detail buku saat ini (untuk cek If-Match di PATCH / DELETE)
+const currentBookEtag = async (bookId: string) =>
+  bookEtag(
+    await presentBook(
+      await prisma.books.findUnique({ where: { id: bookId }, include: bookDetailInclude })
+    )
+  );
+
+const BOOK_MODIFIED_MESSAGE =
+  "Buku sudah diubah oleh pengguna lain sejak terakhir dimuat. Muat ulang lalu coba lagi.";
+
 // ====== CREATE (auto-restore jika soft-deleted) ======
 export const createBook = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({
-        success: false,
-        message: "Token tidak ditemukan.",
-      });
+    const validation = validateBookInput(req.body);
+    if (validation.error) {
+      return res.status(400).json({ success: false, message: validation.error });
     }
 
     const {
       title,
-      writer,
-      publisher,
+      isbn_13,
+      isbn_10,
       description,
-      publication_year,
-      price,
-      stock_quantity,
+      publication_year: pubYear,
+      price: bookPrice,
+      stock_quantity: stockQty,
+      reorder_threshold,
       genre_id,
-    } = req.body;
-
-    // 🔹 Validasi field wajib
-    if (
-      !title ||
-      !writer ||
-      !publisher ||
-      publication_year === undefined ||
-      price === undefined ||
-      stock_quantity === undefined ||
-      !genre_id
-    ) {
-      return res.status(400).json({
-        success: false,
-        message:
-          "Field title, writer, publisher, publication_year, price, stock_quantity, dan genre_id wajib diisi.",
-      });
-    }
-
-    // 🔹 Validasi tipe number
-    const pubYear = Number(publication_year);
-    const bookPrice = Number(price);
-    const stockQty = Number(stock_quantity);
-
-    if (Number.isNaN(pubYear) || Number.isNaN(bookPrice) || Number.isNaN(stockQty)) {
-      return res.status(400).json({
-        success: false,
-        message:
-          "publication_year, price, dan stock_quantity harus berupa number.",
-      });
-    }
-
-    // 🔹 Validasi harga dan stok tidak boleh minus & stok harus bilangan bulat
-if (bookPrice < 0) {
-  return res.status(400).json({
-    success: false,
-    message: "price tidak boleh bernilai negatif.",
-  });
-}
-
-if (stockQty < 0 || !Number.isInteger(stockQty)) {
-  return res.status(400).json({
-    success: false,
-    message: "stock_quantity harus bilangan bulat dan tidak boleh negatif.",
-  });
-}
-
-    // 🔹 Validasi tahun
-    const thisYear = new Date().getFullYear();
-    if (pubYear < 0 || pubYear > thisYear + 1) {
-      return res.status(400).json({
-        success: false,
-        message: "publication_year tidak valid.",
-      });
-    }
-
-    // 🔹 Validasi genre_id
-    const genre = await prisma.genres.findUnique({ where: { id: genre_id } });
-    if (!genre) {
+    } = validation.data;
+    const { genre_ids } = validation;
+    const identity = bookIdentityWhere(validation.data);
+    const userId = (req as any).user.id;
+
+    // 🔹 Validasi genre_id & genre_ids (semua genre harus ada & aktif)
+    const genreCount = await prisma.genres.count({
+      where: { id: { in: genre_ids }, deleted_at: null },
+    });
+    if (genreCount !== genre_ids.length) {
       return res
         .status(404)
         .json({ success: false, message: "Genre tidak ditemukan." });
     }
 
-    // 🔹 Cek apakah ada buku aktif dengan judul yang sama
+    // 🔹 Cek apakah ada buku aktif dengan ISBN (atau judul, jika tanpa ISBN) yang sama
     const existingActive = await prisma.books.findFirst({
-      where: { title, deleted_at: null },
+      where: { ...identity, deleted_at: null },
     });
 
     if (existingActive) {
       return res.status(409).json({
         success: false,
-        message: "Buku dengan judul ini sudah ada (aktif).",
+        message: isbn_13
+          ? "Buku dengan ISBN ini sudah ada (aktif)."
+          : "Buku dengan judul ini sudah ada (aktif).",
       });
     }
 
+    // 🔹 Penulis & penerbit → entitas authors / publishers (nama baru dibuat otomatis)
+    const { writer, credits } = await resolveAuthors(validation.contributors);
+    const { publisher, publisher_id } = await resolvePublisher(validation.contributors);
+
     // 🔹 Cek apakah ada buku yang pernah dihapus (soft delete)
     const existingDeleted = await prisma.books.findFirst({
-      where: { title, NOT: { deleted_at: null } },
+      where: { ...identity, NOT: { deleted_at: null } },
     });
 
     const now = new Date();
 
-    // Jika ada yang sudah dihapus → restore & update
+    // Jika ada yang sudah dihapus → restore & update (perubahan stok dicatat di ledger)
     if (existingDeleted) {
-      const restoredBook = await prisma.books.update({
-        where: { id: existingDeleted.id },
-        data: {
-          deleted_at: null,
-          writer,
-          publisher,
-          description: description || null,
-          publication_year: pubYear,
-          price: bookPrice,
-          stock_quantity: stockQty,
-          genre_id,
-          updated_at: now,
-        },
+      const restoredBook = await prisma.$transaction(async (tx) => {
+        await setStockLevel(
+          tx,
+          existingDeleted.id,
+          stockQty,
+          StockMovementType.adjustment,
+          "Stok diset ulang saat buku dipulihkan",
+          userId
+        );
+
+        return tx.books.update({
+          where: { id: existingDeleted.id },
+          data: {
+            deleted_at: null,
+            title,
+            isbn_10,
+            writer,
+            publisher,
+            publisher_id,
+            description,
+            publication_year: pubYear,
+            price: bookPrice,
+            reorder_threshold,
+            genre_id,
+            genres: { deleteMany: {}, create: genre_ids.map((id) => ({ genre_id: id })) },
+            authors: { deleteMany: {}, create: credits },
+            price_history: priceHistoryEntry(existingDeleted.price, bookPrice, userId),
+            updated_at: now,
+          },
+          include: bookDetailInclude,
+        });
       });
 
       return res.status(200).json({
         success: true,
         message: "Buku berhasil ditambahkan kembali.",
-        data: restoredBook,
+        data: await presentBook(restoredBook),
       });
     }
 
@@ -136,24 +153,36 @@ if (stockQty < 0 || !Number.isInteger(stockQty)) {
     const newBook = await prisma.books.create({
       data: {
         title,
+        isbn_13,
+        isbn_10,
         writer,
         publisher,
-        description: description || null,
+        publisher_id,
+        description,
         publication_year: pubYear,
         price: bookPrice,
         stock_quantity: stockQty,
+        reorder_threshold,
         genre_id,
+        genres: { create: genre_ids.map((id) => ({ genre_id: id })) },
+        authors: { create: credits },
+        price_history: priceHistoryEntry(null, bookPrice, userId),
+        stock_movements: initialStockEntry(stockQty, userId),
         created_at: now,
         updated_at: now,
       },
+      include: bookDetailInclude,
     });
 
     return res.status(201).json({
       success: true,
       message: "Buku berhasil ditambahkan.",
-      data: newBook,
+      data: await presentBook(newBook),
     });
   } catch (err: any) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ success: false, message: err.message });
+    }
     // 🔹 Handle Prisma error code
     if (err?.code === "P2002") {
       return res.status(409).json({
@@ -176,169 +205,203 @@ if (stockQty < 0 || !Number.isInteger(stockQty)) {
 };
 
 
-// ====== GET ALL (filter + pagination + sorting) ======
-export const getAllBooks = async (req: Request, res: Response) => {
+// ====== IMPORT MASSAL (CSV / JSON, upsert by ISBN / title) ======
+// dry_run=true → hanya validasi & laporan per baris, tanpa menulis ke database
+export const importBooks = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({ success: false, message: "Token tidak ditemukan." });
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: "File wajib diunggah lewat field file.",
+      });
     }
 
-    const {
-      page = "1",
-      limit = "10",
-      search,
-      orderByTitle = "",
-      orderByPublishDate = "",
-    } = req.query as Record<string, string>;
-
-    const pageNum = Math.max(1, Number(page));
-    const limitNum = Math.max(1, Number(limit));
-    const skip = (pageNum - 1) * limitNum;
-
-    const where: Prisma.booksWhereInput = {
-      deleted_at: null,
-      ...(search
-        ? {
-            OR: [
-              { title: { contains: search, mode: "insensitive" } },
-              { writer: { contains: search, mode: "insensitive" } },
-              { publisher: { contains: search, mode: "insensitive" } },
-            ],
-          }
-        : {}),
-    };
-
-    const [total, books] = await Promise.all([
-      prisma.books.count({ where }),
-      prisma.books.findMany({
-        where,
-        skip,
-        take: limitNum,
-        include: { genre: { select: { id: true, name: true } } },
-        orderBy: orderByTitle
-          ? { title: orderByTitle as "asc" | "desc" }
-          : orderByPublishDate
-          ? { publication_year: orderByPublishDate as "asc" | "desc" }
-          : { created_at: "desc" },
-      }),
-    ]);
+    const format = detectImportFormat(req.file, req.query.format as string);
+    if (!format) {
+      return res.status(400).json({
+        success: false,
+        message: "Format file harus csv atau json.",
+      });
+    }
+
+    const rows = parseImportFile(req.file.buffer, format);
+    if (rows.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "File tidak berisi data buku.",
+      });
+    }
+
+    const dryRun = req.query.dry_run === "true";
+    const result = await runBookImport(rows, dryRun, (req as any).user.id);
+
+    return res.status(dryRun ? 200 : 201).json({
+      success: true,
+      message: dryRun
+        ? "Dry run import selesai, tidak ada data yang disimpan."
+        : "Import buku selesai.",
+      data: result,
+    });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ success: false, message: err.message });
+    }
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+
+// ====== GET ALL (filter + pagination + sorting) ======
+// search_mode=fulltext → pencarian full-text Postgres dengan ranking relevansi & highlight
+// Filter: min_price, max_price, min_year, max_year, genre_ids (koma), publisher, publisher_id, writer, author_id, in_stock=true, min_rating
+export const getAllBooks = async (req: Request, res: Response) => {
+  try {
+    const data = await listBooks(req.query as Record<string, string>);
 
     return res.json({
       success: true,
       message: "Daftar buku berhasil diambil.",
-      data: {
-        items: books,
-        pagination: {
-          page: pageNum,
-          limit: limitNum,
-          total,
-          total_pages: Math.ceil(total / limitNum),
-        },
-      },
+      data,
     });
   } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ success: false, message: err.message });
+    }
     console.error(err);
     return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
   }
 };
 
 
-// ====== GET DETAIL ======
-export const getBookDetail = async (req: Request, res: Response) => {
+// ====== LAPORAN LOW-STOCK (paling mendesak dulu) ======
+// ?days= periode penjualan untuk menghitung kecepatan jual (default SALES_VELOCITY_DAYS)
+export const getLowStockBooks = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({
+    const days = req.query.days === undefined ? SALES_VELOCITY_DAYS : Number(req.query.days);
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      return res.status(400).json({
         success: false,
-        message: "Token tidak ditemukan.",
+        message: "days harus bilangan bulat antara 1 dan 365.",
       });
     }
 
+    const report = await getLowStockReport(days);
+
+    return res.json({ success: true, message: "Laporan stok menipis berhasil diambil.", data: report });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ====== GET DETAIL ======
+export const getBookDetail = async (req: Request, res: Response) => {
+  try {
     const { book_id } = req.params;
 
     const book = await prisma.books.findFirst({
       where: { id: book_id, deleted_at: null },
-      include: {
-        genre: { select: { id: true, name: true } },
-      },
+      include: bookDetailInclude,
     });
 
     if (!book) {
       return res.status(404).json({ success: false, message: "Buku tidak ditemukan." });
     }
 
-    return res.json({ success: true, message: "Detail buku berhasil diambil.", data: book });
+    const data = await presentBook(book);
+    const etag = bookEtag(data);
+    res.setHeader("ETag", etag);
+    if (isNotModified(req, etag)) {
+      return res.status(304).end();
+    }
+
+    return res.json({ success: true, message: "Detail buku berhasil diambil.", data });
   } catch (err) {
     console.error(err);
     return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
   }
 };
 
-// ====== GET BY GENRE (filter + pagination) ======
-export const getBooksByGenre = async (req: Request, res: Response) => {
+// ====== REKOMENDASI "PEMBELI JUGA MEMBELI" (?limit=, default 10) ======
+export const getBookRecommendations = async (req: Request, res: Response) => {
+  try {
+    const items = await recommendForBook(req.params.book_id, parseLimit(req.query.limit));
+
+    if (!items) {
+      return res.status(404).json({ success: false, message: "Buku tidak ditemukan." });
+    }
+
+    return res.json({ success: true, message: "Rekomendasi buku berhasil diambil.", data: items });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ====== GET BY ISBN (ISBN-10 atau ISBN-13) ======
+export const getBookByIsbn = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({ success: false, message: "Token tidak ditemukan." });
+    const parsed = parseIsbn(req.params.isbn);
+    if (!parsed) {
+      return res.status(400).json({
+        success: false,
+        message: "isbn tidak valid (format atau checksum salah).",
+      });
     }
 
-    const { genre_id } = req.params;
-    const { page = "1", limit = "10", search, orderByTitle = "", orderByPublishDate = "" } =
-      req.query as Record<string, string>;
+    const book = await prisma.books.findFirst({
+      where: { isbn_13: parsed.isbn_13, deleted_at: null },
+      include: bookDetailInclude,
+    });
+
+    if (!book) {
+      return res.status(404).json({ success: false, message: "Buku tidak ditemukan." });
+    }
+
+    const data = await presentBook(book);
+    const etag = bookEtag(data);
+    res.setHeader("ETag", etag);
+    if (isNotModified(req, etag)) {
+      return res.status(304).end();
+    }
 
-    const pageNum = Math.max(1, Number(page));
-    const limitNum = Math.max(1, Number(limit));
-    const skip = (pageNum - 1) * limitNum;
+    return res.json({ success: true, message: "Detail buku berhasil diambil.", data });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ====== GET BY GENRE (filter + pagination) ======
+// include_descendants=true → ikut buku dari semua subgenre (anak, cucu, dst.)
+export const getBooksByGenre = async (req: Request, res: Response) => {
+  try {
+    const { genre_id } = req.params;
 
     const genre = await prisma.genres.findUnique({ where: { id: genre_id } });
     if (!genre) {
       return res.status(404).json({ success: false, message: "Genre tidak ditemukan." });
     }
 
-    const where: Prisma.booksWhereInput = {
-      deleted_at: null,
-      genre_id,
-      ...(search
-        ? {
-            OR: [
-              { title: { contains: search, mode: "insensitive" } },
-              { writer: { contains: search, mode: "insensitive" } },
-              { publisher: { contains: search, mode: "insensitive" } },
-            ],
-          }
-        : {}),
-    };
-
-    const [total, books] = await Promise.all([
-      prisma.books.count({ where }),
-      prisma.books.findMany({
-        where,
-        skip,
-        take: limitNum,
-        include: { genre: { select: { id: true, name: true } } },
-        orderBy: orderByTitle
-          ? { title: orderByTitle as "asc" | "desc" }
-          : orderByPublishDate
-          ? { publication_year: orderByPublishDate as "asc" | "desc" }
-          : { created_at: "desc" },
-      }),
-    ]);
+    const genreIds =
+      req.query.include_descendants === "true"
+        ? [genre_id, ...(await getDescendantIds(genre_id))]
+        : [genre_id];
+
+    const data = await listBooks(req.query as Record<string, string>, {
+      genres: { some: { genre_id: { in: genreIds } } },
+    });
 
     return res.json({
       success: true,
       message: "Daftar buku per genre berhasil diambil.",
-      data: {
-        items: books,
-        pagination: {
-          page: pageNum,
-          limit: limitNum,
-          total,
-          total_pages: Math.ceil(total / limitNum),
-        },
-      },
+      data,
     });
   } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ success: false, message: err.message });
+    }
     console.error(err);
     return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
   }
@@ -347,24 +410,22 @@ export const getBooksByGenre = async (req: Request, res: Response) => {
 // ====== UPDATE (PATCH) ======
 export const updateBook = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({
-        success: false,
-        message: "Token tidak ditemukan.",
-      });
-    }
-
     const { book_id } = req.params;
     const {
       title,
+      isbn,
       writer,
+      authors,
       publisher,
+      publisher_id,
       description,
       publication_year,
       price,
       stock_quantity,
+      stock_reason,
+      reorder_threshold,
       genre_id,
+      genre_ids,
     } = req.body;
 
     // Pastikan buku ada & belum dihapus
@@ -375,13 +436,72 @@ export const updateBook = async (req: Request, res: Response) => {
       return res.status(404).json({ success: false, message: "Buku tidak ditemukan." });
     }
 
+    // If-Match: tolak jika buku sudah berubah sejak client mengambil ETag-nya
+    const ifMatch = req.headers["if-match"];
+    if (ifMatch && !ifMatchSatisfied(req, await currentBookEtag(book_id))) {
+      return res.status(412).json({ success: false, message: BOOK_MODIFIED_MESSAGE });
+    }
+
+    if (title !== undefined && (typeof title !== "string" || title.trim() === "")) {
+      return res.status(400).json({ success: false, message: "title harus berupa teks." });
+    }
+
     // Build data partial
-    const data: any = { updated_at: new Date() };
+    const data: Prisma.booksUpdateInput = { updated_at: new Date() };
+    let stockTarget: number | undefined;
     if (title !== undefined) data.title = title;
-    if (writer !== undefined) data.writer = writer;
-    if (publisher !== undefined) data.publisher = publisher;
     if (description !== undefined) data.description = description;
 
+    // Daftar penulis diganti seluruhnya (authors atau writer string)
+    if (writer !== undefined || authors !== undefined) {
+      const { writer: writerName, credits } = await resolveAuthors({ writer, authors });
+      data.writer = writerName;
+      data.authors = { deleteMany: {}, create: credits };
+    }
+
+    if (publisher !== undefined || publisher_id !== undefined) {
+      const resolved = await resolvePublisher({ publisher, publisher_id });
+      data.publisher = resolved.publisher;
+      data.publisher_ref = resolved.publisher_id
+        ? { connect: { id: resolved.publisher_id } }
+        : { disconnect: true };
+    }
+
+    // isbn: null → hapus ISBN, selain itu divalidasi & dinormalisasi ke ISBN-13
+    let nextIsbn = existing.isbn_13;
+    if (isbn !== undefined) {
+      if (isbn === null || isbn === "") {
+        data.isbn_13 = null;
+        data.isbn_10 = null;
+        nextIsbn = null;
+      } else {
+        const parsed = parseIsbn(isbn);
+        if (!parsed) {
+          return res.status(400).json({
+            success: false,
+            message: "isbn tidak valid (format atau checksum salah).",
+          });
+        }
+        data.isbn_13 = parsed.isbn_13;
+        data.isbn_10 = parsed.isbn_10;
+        nextIsbn = parsed.isbn_13;
+      }
+    }
+
+    // Buku tanpa ISBN diidentifikasi lewat judul: ganti judul / hapus ISBN tidak boleh bentrok dengan buku aktif
+    const nextTitle: string = title ?? existing.title;
+    if (!nextIsbn && (nextTitle !== existing.title || existing.isbn_13)) {
+      const duplicate = await prisma.books.findFirst({
+        where: { title: nextTitle, isbn_13: null, deleted_at: null, NOT: { id: book_id } },
+      });
+      if (duplicate) {
+        return res.status(409).json({
+          success: false,
+          message: "Buku dengan judul ini sudah ada (aktif).",
+        });
+      }
+    }
+
     if (publication_year !== undefined) {
       const pubYear = Number(publication_year);
       if (Number.isNaN(pubYear)) {
@@ -402,6 +522,7 @@ export const updateBook = async (req: Request, res: Response) => {
     });
   }
   data.price = bookPrice;
+  data.price_history = priceHistoryEntry(existing.price, bookPrice, (req as any).user.id);
 }
 
     if (stock_quantity !== undefined) {
@@ -415,28 +536,97 @@ export const updateBook = async (req: Request, res: Response) => {
       message: "stock_quantity harus bilangan bulat dan tidak boleh negatif.",
     });
   }
-  data.stock_quantity = stockQty;
+  // Tidak ditulis langsung ke books, tapi lewat ledger stok (lihat di bawah)
+  stockTarget = stockQty;
 }
 
-    if (genre_id !== undefined) {
-      const g = await prisma.genres.findUnique({ where: { id: genre_id } });
-      if (!g) {
+    // reorder_threshold: null → ikut default genre
+    if (reorder_threshold !== undefined) {
+      const threshold = parseReorderThreshold(reorder_threshold);
+      if (threshold === undefined) {
+        return res.status(400).json({
+          success: false,
+          message: "reorder_threshold harus bilangan bulat dan tidak boleh negatif.",
+        });
+      }
+      data.reorder_threshold = threshold;
+    }
+
+    // genre_ids mengganti seluruh daftar genre; genre_id saja hanya mengganti genre utama
+    if (genre_id !== undefined || genre_ids !== undefined) {
+      const ids = genre_ids !== undefined ? parseGenreIds(genre_ids) : undefined;
+      if (genre_ids !== undefined && !ids?.length) {
+        return res.status(400).json({
+          success: false,
+          message: "genre_ids harus array (atau daftar dipisah koma) berisi minimal satu genre.",
+        });
+      }
+
+      const current = (
+        await prisma.book_genres.findMany({ where: { book_id }, select: { genre_id: true } })
+      ).map((link) => link.genre_id);
+
+      // Genre utama lama tetap utama selama masih ada di genre_ids yang baru
+      const primary =
+        genre_id ?? (ids && !ids.includes(existing.genre_id) ? ids[0] : existing.genre_id);
+      const links = withPrimaryGenre(
+        primary,
+        ids ?? current.filter((id) => id !== existing.genre_id)
+      );
+
+      // Hanya genre yang baru ditambahkan yang perlu dicek
+      const added = links.filter((id) => !current.includes(id));
+      const genreCount = await prisma.genres.count({
+        where: { id: { in: added }, deleted_at: null },
+      });
+      if (genreCount !== added.length) {
         return res.status(400).json({ success: false, message: "genre_id tidak valid." });
       }
-      data.genre_id = genre_id;
+
+      data.genre = { connect: { id: primary } };
+      data.genres = { deleteMany: {}, create: links.map((id) => ({ genre_id: id })) };
     }
 
-    const updated = await prisma.books.update({
-      where: { id: book_id },
-      data,
+    const updated = await prisma.$transaction(async (tx) => {
+      // Kunci versi yang sudah dicek: update lain yang masuk di antaranya → 412, bukan menimpa
+      if (ifMatch) {
+        const { count } = await tx.books.updateMany({
+          where: { id: book_id, version: existing.version },
+          data: { updated_at: new Date() },
+        });
+        if (count === 0) throw new HttpError(412, BOOK_MODIFIED_MESSAGE);
+      }
+
+      if (stockTarget !== undefined) {
+        await setStockLevel(
+          tx,
+          book_id,
+          stockTarget,
+          StockMovementType.adjustment,
+          stock_reason || "Diubah lewat update buku",
+          (req as any).user.id
+        );
+      }
+
+      return tx.books.update({
+        where: { id: book_id },
+        data,
+        include: bookDetailInclude,
+      });
     });
 
-    return res.json({ success: true, message: "Buku berhasil diperbarui.", data: updated });
+    const book = await presentBook(updated);
+    res.setHeader("ETag", bookEtag(book));
+
+    return res.json({ success: true, message: "Buku berhasil diperbarui.", data: book });
   } catch (err: any) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ success: false, message: err.message });
+    }
     if (err?.code === "P2002") {
       return res.status(409).json({
         success: false,
-        message: "Data melanggar unique constraint (mungkin title sudah digunakan).",
+        message: "Data melanggar unique constraint (ISBN sudah digunakan buku lain).",
       });
     }
     console.error(err);
@@ -444,17 +634,108 @@ export const updateBook = async (req: Request, res: Response) => {
   }
 };
 
-// ====== DELETE (soft delete + blokir jika sudah ada transaksi) ======
-export const deleteBook = async (req: Request, res: Response) => {
+// ====== RIWAYAT HARGA (terbaru dulu) ======
+export const getBookPriceHistory = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({
+    const { book_id } = req.params;
+
+    const book = await prisma.books.findUnique({
+      where: { id: book_id },
+      select: { id: true, title: true, price: true, genre_id: true },
+    });
+    if (!book) {
+      return res.status(404).json({ success: false, message: "Buku tidak ditemukan." });
+    }
+
+    const history = await prisma.price_history.findMany({
+      where: { book_id },
+      orderBy: { created_at: "desc" },
+    });
+
+    return res.json({
+      success: true,
+      message: "Riwayat harga berhasil diambil.",
+      data: { book: await withEffectivePrice(book), history },
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ====== UPLOAD COVER (multipart, field "cover") ======
+// Cover lama diganti & file-nya dihapus setelah cover baru tersimpan
+export const uploadBookCover = async (req: Request, res: Response) => {
+  try {
+    const { book_id } = req.params;
+
+    if (!req.file) {
+      return res.status(400).json({
         success: false,
-        message: "Token tidak ditemukan.",
+        message: "File wajib diunggah lewat field cover.",
       });
     }
-    
+
+    const book = await prisma.books.findFirst({
+      where: { id: book_id, deleted_at: null },
+    });
+    if (!book) {
+      return res.status(404).json({ success: false, message: "Buku tidak ditemukan." });
+    }
+
+    const coverPath = await storeCover(book.id, req.file.buffer);
+    const updated = await prisma.books.update({
+      where: { id: book_id },
+      data: { cover_path: coverPath, updated_at: new Date() },
+      include: bookDetailInclude,
+    });
+
+    if (book.cover_path) {
+      await deleteCover(book.cover_path).catch((err) => console.error(err));
+    }
+
+    return res.json({ success: true, message: "Cover buku berhasil diunggah.", data: await presentBook(updated) });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ success: false, message: err.message });
+    }
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ====== DELETE COVER ======
+export const deleteBookCover = async (req: Request, res: Response) => {
+  try {
+    const { book_id } = req.params;
+
+    const book = await prisma.books.findFirst({
+      where: { id: book_id, deleted_at: null },
+    });
+    if (!book) {
+      return res.status(404).json({ success: false, message: "Buku tidak ditemukan." });
+    }
+    if (!book.cover_path) {
+      return res.status(404).json({ success: false, message: "Buku belum memiliki cover." });
+    }
+
+    const updated = await prisma.books.update({
+      where: { id: book_id },
+      data: { cover_path: null, updated_at: new Date() },
+      include: bookDetailInclude,
+    });
+    await deleteCover(book.cover_path).catch((err) => console.error(err));
+
+    return res.json({ success: true, message: "Cover buku berhasil dihapus.", data: await presentBook(updated) });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ====== DELETE (soft delete + blokir jika sudah ada transaksi) ======
+export const deleteBook = async (req: Request, res: Response) => {
+  try {
     const { book_id } = req.params;
 
     const book = await prisma.books.findFirst({
@@ -466,6 +747,10 @@ export const deleteBook = async (req: Request, res: Response) => {
       return res.status(404).json({ success: false, message: "Buku tidak ditemukan." });
     }
 
+    if (req.headers["if-match"] && !ifMatchSatisfied(req, await currentBookEtag(book_id))) {
+      return res.status(412).json({ success: false, message: BOOK_MODIFIED_MESSAGE });
+    }
+
     if (book.order_items.length > 0) {
       return res.status(400).json({
         success: false,
@@ -473,13 +758,17 @@ export const deleteBook = async (req: Request, res: Response) => {
       });
     }
 
+    // Dengan If-Match, versi ikut jadi syarat update (berubah di antaranya → P2025 → 412)
     const deleted = await prisma.books.update({
-      where: { id: book_id },
+      where: { id: book_id, ...(req.headers["if-match"] ? { version: book.version } : {}) },
       data: { deleted_at: new Date(), updated_at: new Date() },
     });
 
     return res.json({ success: true, message: "Buku berhasil dihapus.", data: deleted });
-  } catch (err) {
+  } catch (err: any) {
+    if (err?.code === "P2025") {
+      return res.status(412).json({ success: false, message: BOOK_MODIFIED_MESSAGE });
+    }
     console.error(err);
     return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
   }
@@ -0,0 +1,97 @@
+import { Request, Response } from "express";
+import { PrismaClient, NotificationType } from "@prisma/client";
+import { parseLimit } from "../utils/pagination";
+
+const prisma = new PrismaClient();
+
+// ✅ Get Notifications (terbaru dulu). Query: unread=true, type, page, limit
+export const getNotifications = async (req: Request, res: Response) => {
+  try {
+    const { unread, type } = req.query as Record<string, string>;
+    const page = Math.max(1, Number(req.query.page) || 1);
+    const limit = parseLimit(req.query.limit);
+
+    if (type && !Object.values(NotificationType).includes(type as NotificationType)) {
+      return res.status(400).json({
+        success: false,
+        message: `type harus salah satu dari: ${Object.values(NotificationType).join(", ")}.`,
+      });
+    }
+
+    const where = {
+      ...(unread === "true" ? { read_at: null as null } : {}),
+      ...(type ? { type: type as NotificationType } : {}),
+    };
+
+    const [total, unreadCount, notifications] = await Promise.all([
+      prisma.notifications.count({ where }),
+      prisma.notifications.count({ where: { read_at: null } }),
+      prisma.notifications.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        include: { book: { select: { id: true, title: true, stock_quantity: true } } },
+        orderBy: [{ created_at: "desc" }, { id: "desc" }],
+      }),
+    ]);
+
+    return res.json({
+      success: true,
+      message: "Daftar notifikasi berhasil diambil.",
+      data: {
+        unread_count: unreadCount,
+        items: notifications,
+        pagination: { page, limit, total, total_pages: Math.ceil(total / limit) },
+      },
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ✅ Tandai satu notifikasi sudah dibaca
+export const markNotificationRead = async (req: Request, res: Response) => {
+  try {
+    const { notification_id } = req.params;
+
+    const notification = await prisma.notifications.findUnique({
+      where: { id: notification_id },
+    });
+
+    if (!notification) {
+      return res.status(404).json({ success: false, message: "Notifikasi tidak ditemukan." });
+    }
+
+    const updated = notification.read_at
+      ? notification
+      : await prisma.notifications.update({
+          where: { id: notification_id },
+          data: { read_at: new Date(), read_by: (req as any).user.id },
+        });
+
+    return res.json({ success: true, message: "Notifikasi ditandai sudah dibaca.", data: updated });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ✅ Tandai semua notifikasi sudah dibaca
+export const markAllNotificationsRead = async (req: Request, res: Response) => {
+  try {
+    const { count } = await prisma.notifications.updateMany({
+      where: { read_at: null },
+      data: { read_at: new Date(), read_by: (req as any).user.id },
+    });
+
+    return res.json({
+      success: true,
+      message: "Semua notifikasi ditandai sudah dibaca.",
+      data: { updated: count },
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
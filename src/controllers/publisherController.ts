@@ -0,0 +1,269 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import { listBooks } from "../services/bookListService";
+import { normalizeName } from "../services/contributorService";
+import { HttpError } from "../utils/httpError";
+
+const prisma = new PrismaClient();
+
+// ✅ Create Publisher (auto-restore jika nama yang sama pernah di-soft delete)
+export const createPublisher = async (req: Request, res: Response) => {
+  try {
+    const { name } = req.body;
+
+    if (typeof name !== "string" || normalizeName(name) === "") {
+      return res.status(400).json({
+        success: false,
+        message: "Nama penerbit wajib diisi.",
+      });
+    }
+
+    // "Gramedia" dan "gramedia." dianggap penerbit yang sama
+    const existing = await prisma.publishers.findUnique({
+      where: { normalized_name: normalizeName(name) },
+    });
+
+    if (existing && existing.deleted_at === null) {
+      return res.status(409).json({
+        success: false,
+        message: `Penerbit sudah terdaftar sebagai "${existing.name}".`,
+        data: existing,
+      });
+    }
+
+    if (existing) {
+      const restored = await prisma.publishers.update({
+        where: { id: existing.id },
+        data: { name: name.trim(), deleted_at: null, updated_at: new Date() },
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Penerbit berhasil dibuat. (restore dari soft delete).",
+        data: restored,
+      });
+    }
+
+    const publisher = await prisma.publishers.create({
+      data: {
+        name: name.trim(),
+        normalized_name: normalizeName(name),
+        created_at: new Date(),
+        updated_at: new Date(),
+      },
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: "Penerbit berhasil dibuat.",
+      data: publisher,
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Get All Publisher (?search= untuk mencari nama)
+export const getAllPublishers = async (req: Request, res: Response) => {
+  try {
+    const search = req.query.search as string | undefined;
+
+    const publishers = await prisma.publishers.findMany({
+      where: {
+        deleted_at: null,
+        ...(search ? { name: { contains: search, mode: "insensitive" } } : {}),
+      },
+      orderBy: { name: "asc" },
+      include: { _count: { select: { books: true } } },
+    });
+
+    return res.json({
+      success: true,
+      message: "Daftar penerbit berhasil diambil.",
+      data: publishers,
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Get Publisher Detail
+export const getPublisherById = async (req: Request, res: Response) => {
+  try {
+    const { publisher_id } = req.params;
+
+    const publisher = await prisma.publishers.findFirst({
+      where: { id: publisher_id, deleted_at: null },
+      include: { _count: { select: { books: true } } },
+    });
+
+    if (!publisher) {
+      return res.status(404).json({
+        success: false,
+        message: "Penerbit tidak ditemukan.",
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: "Detail penerbit berhasil diambil.",
+      data: publisher,
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Get Books by Publisher (filter, sorting & pagination sama dengan GET /books)
+export const getPublisherBooks = async (req: Request, res: Response) => {
+  try {
+    const { publisher_id } = req.params;
+
+    const publisher = await prisma.publishers.findFirst({
+      where: { id: publisher_id, deleted_at: null },
+    });
+
+    if (!publisher) {
+      return res.status(404).json({
+        success: false,
+        message: "Penerbit tidak ditemukan.",
+      });
+    }
+
+    const data = await listBooks(req.query as Record<string, string>, { publisher_id });
+
+    return res.json({
+      success: true,
+      message: "Daftar buku penerbit berhasil diambil.",
+      data,
+    });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ success: false, message: err.message });
+    }
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Update Publisher (ganti nama → kolom publisher di buku ikut diperbarui)
+export const updatePublisher = async (req: Request, res: Response) => {
+  try {
+    const { publisher_id } = req.params;
+    const { name } = req.body;
+
+    const publisher = await prisma.publishers.findFirst({
+      where: { id: publisher_id, deleted_at: null },
+    });
+
+    if (!publisher) {
+      return res.status(404).json({
+        success: false,
+        message: "Penerbit tidak ditemukan.",
+      });
+    }
+
+    if (name !== undefined && (typeof name !== "string" || normalizeName(name) === "")) {
+      return res.status(400).json({
+        success: false,
+        message: "Nama penerbit tidak boleh kosong.",
+      });
+    }
+
+    const updated = await prisma.publishers.update({
+      where: { id: publisher_id },
+      data: {
+        name: name ? name.trim() : publisher.name,
+        normalized_name: name ? normalizeName(name) : publisher.normalized_name,
+        updated_at: new Date(),
+      },
+    });
+
+    if (updated.name !== publisher.name) {
+      await prisma.books.updateMany({
+        where: { publisher_id },
+        data: { publisher: updated.name },
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: "Penerbit berhasil diperbarui.",
+      data: updated,
+    });
+  } catch (err: any) {
+    if (err?.code === "P2002") {
+      return res.status(409).json({
+        success: false,
+        message: "Penerbit dengan nama ini sudah ada.",
+      });
+    }
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Soft Delete Publisher
+export const deletePublisher = async (req: Request, res: Response) => {
+  try {
+    const { publisher_id } = req.params;
+
+    const publisher = await prisma.publishers.findFirst({
+      where: { id: publisher_id, deleted_at: null },
+    });
+
+    if (!publisher) {
+      return res.status(404).json({
+        success: false,
+        message: "Penerbit tidak ditemukan.",
+      });
+    }
+
+    // Pastikan tidak ada buku aktif yang masih memakai penerbit ini
+    const bookCount = await prisma.books.count({
+      where: { publisher_id, deleted_at: null },
+    });
+
+    if (bookCount > 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Penerbit tidak dapat dihapus karena masih digunakan oleh buku.",
+      });
+    }
+
+    const deleted = await prisma.publishers.update({
+      where: { id: publisher_id },
+      data: { deleted_at: new Date(), updated_at: new Date() },
+    });
+
+    return res.json({
+      success: true,
+      message: "Penerbit berhasil dihapus (soft delete).",
+      data: deleted,
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
@@ -0,0 +1,379 @@
+import { Request, Response } from "express";
+import { PrismaClient, ReviewStatus } from "@prisma/client";
+import { isPrivileged } from "../middleware/roleMiddleware";
+import { HttpError } from "../utils/httpError";
+import { parseDirection, parseLimit } from "../utils/pagination";
+import {
+  hasPurchasedBook,
+  parseRating,
+  refreshBookRating,
+} from "../services/reviewService";
+
+const prisma = new PrismaClient();
+
+const MAX_REVIEW_LENGTH = 5000;
+
+const reviewInclude = {
+  user: { select: { id: true, username: true } },
+};
+
+const invalidText = (text: unknown) =>
+  text !== undefined &&
+  text !== null &&
+  (typeof text !== "string" || text.length > MAX_REVIEW_LENGTH);
+
+// ✅ Get Reviews per Buku (hanya yang tampil, terbaru dulu)
+// Query: page, limit, rating (1–5), orderByRating=asc|desc
+export const getBookReviews = async (req: Request, res: Response) => {
+  try {
+    const { book_id } = req.params;
+    const page = Math.max(1, Number(req.query.page) || 1);
+    const limit = parseLimit(req.query.limit);
+    const rating = parseRating(req.query.rating);
+    const orderByRating = parseDirection(req.query.orderByRating, "orderByRating");
+
+    const book = await prisma.books.findFirst({
+      where: { id: book_id, deleted_at: null },
+      select: { id: true, rating_avg: true, rating_count: true },
+    });
+
+    if (!book) {
+      return res.status(404).json({ success: false, message: "Buku tidak ditemukan." });
+    }
+
+    const where = {
+      book_id,
+      status: ReviewStatus.visible,
+      deleted_at: null as null,
+      ...(rating ? { rating } : {}),
+    };
+
+    const [total, reviews, distribution] = await Promise.all([
+      prisma.reviews.count({ where }),
+      prisma.reviews.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        include: reviewInclude,
+        orderBy: orderByRating
+          ? [{ rating: orderByRating }, { created_at: "desc" }]
+          : [{ created_at: "desc" }],
+      }),
+      prisma.reviews.groupBy({
+        by: ["rating"],
+        where: { book_id, status: ReviewStatus.visible, deleted_at: null },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return res.json({
+      success: true,
+      message: "Daftar review berhasil diambil.",
+      data: {
+        summary: {
+          rating_avg: book.rating_avg,
+          rating_count: book.rating_count,
+          // Jumlah review per bintang 1–5
+          distribution: [1, 2, 3, 4, 5].map((star) => ({
+            rating: star,
+            count: distribution.find((group) => group.rating === star)?._count._all ?? 0,
+          })),
+        },
+        items: reviews,
+        pagination: { page, limit, total, total_pages: Math.ceil(total / limit) },
+      },
+    });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ success: false, message: err.message });
+    }
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ✅ Create Review (hanya pembeli, satu review per user per buku)
+export const createReview = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const { book_id } = req.params;
+    const { rating, text } = req.body;
+
+    const ratingValue = parseRating(rating);
+    if (!ratingValue) {
+      return res.status(400).json({
+        success: false,
+        message: "rating wajib berupa bilangan bulat 1 sampai 5.",
+      });
+    }
+
+    if (invalidText(text)) {
+      return res.status(400).json({
+        success: false,
+        message: `text harus berupa string maksimal ${MAX_REVIEW_LENGTH} karakter.`,
+      });
+    }
+
+    const book = await prisma.books.findFirst({ where: { id: book_id, deleted_at: null } });
+    if (!book) {
+      return res.status(404).json({ success: false, message: "Buku tidak ditemukan." });
+    }
+
+    if (!(await hasPurchasedBook(user.id, book_id))) {
+      return res.status(403).json({
+        success: false,
+        message: "Hanya pembeli buku ini yang dapat menulis review.",
+      });
+    }
+
+    const existing = await prisma.reviews.findUnique({
+      where: { book_id_user_id: { book_id, user_id: user.id } },
+    });
+
+    if (existing && existing.deleted_at === null) {
+      return res.status(409).json({
+        success: false,
+        message: "Kamu sudah menulis review untuk buku ini. Ubah review yang ada.",
+      });
+    }
+
+    const now = new Date();
+    // Review yang pernah dihapus dipakai ulang. Status moderasi (hidden) & created_at asli tetap berlaku.
+    const review = existing
+      ? await prisma.reviews.update({
+          where: { id: existing.id },
+          data: {
+            rating: ratingValue,
+            text: text || null,
+            deleted_at: null,
+            updated_at: now,
+          },
+          include: reviewInclude,
+        })
+      : await prisma.reviews.create({
+          data: {
+            book_id,
+            user_id: user.id,
+            rating: ratingValue,
+            text: text || null,
+            created_at: now,
+            updated_at: now,
+          },
+          include: reviewInclude,
+        });
+
+    await refreshBookRating(book_id);
+
+    return res.status(201).json({
+      success: true,
+      message: "Review berhasil dibuat.",
+      data: review,
+    });
+  } catch (err: any) {
+    if (err?.code === "P2002") {
+      return res.status(409).json({
+        success: false,
+        message: "Kamu sudah menulis review untuk buku ini. Ubah review yang ada.",
+      });
+    }
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ✅ Update Review (hanya penulis review)
+export const updateReview = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const { review_id } = req.params;
+    const { rating, text } = req.body;
+
+    const review = await prisma.reviews.findFirst({
+      where: { id: review_id, deleted_at: null },
+    });
+
+    if (!review) {
+      return res.status(404).json({ success: false, message: "Review tidak ditemukan." });
+    }
+
+    if (review.user_id !== user.id) {
+      return res.status(403).json({
+        success: false,
+        message: "Akses ditolak. Hanya penulis review yang dapat mengubahnya.",
+      });
+    }
+
+    const data: any = { updated_at: new Date() };
+
+    if (rating !== undefined) {
+      const ratingValue = parseRating(rating);
+      if (!ratingValue) {
+        return res.status(400).json({
+          success: false,
+          message: "rating wajib berupa bilangan bulat 1 sampai 5.",
+        });
+      }
+      data.rating = ratingValue;
+    }
+
+    if (text !== undefined) {
+      if (invalidText(text)) {
+        return res.status(400).json({
+          success: false,
+          message: `text harus berupa string maksimal ${MAX_REVIEW_LENGTH} karakter.`,
+        });
+      }
+      data.text = text || null;
+    }
+
+    const updated = await prisma.reviews.update({
+      where: { id: review_id },
+      data,
+      include: reviewInclude,
+    });
+
+    await refreshBookRating(review.book_id);
+
+    return res.json({ success: true, message: "Review berhasil diperbarui.", data: updated });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ✅ Delete Review (penulis review, atau staff sebagai moderasi)
+export const deleteReview = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const { review_id } = req.params;
+    const { reason } = req.body ?? {};
+
+    const review = await prisma.reviews.findFirst({
+      where: { id: review_id, deleted_at: null },
+    });
+
+    if (!review) {
+      return res.status(404).json({ success: false, message: "Review tidak ditemukan." });
+    }
+
+    const isOwner = review.user_id === user.id;
+    if (!isOwner && !isPrivileged(user.role)) {
+      return res.status(403).json({
+        success: false,
+        message: "Akses ditolak. Kamu tidak boleh menghapus review ini.",
+      });
+    }
+
+    const now = new Date();
+    // Dihapus moderator → juga di-hidden, supaya review yang ditulis ulang tidak langsung tampil
+    const deleted = await prisma.reviews.update({
+      where: { id: review_id },
+      data: isOwner
+        ? { deleted_at: now, updated_at: now }
+        : {
+            deleted_at: now,
+            status: ReviewStatus.hidden,
+            moderation_reason: reason || null,
+            moderated_by: user.id,
+            moderated_at: now,
+            updated_at: now,
+          },
+    });
+
+    await refreshBookRating(review.book_id);
+
+    return res.json({ success: true, message: "Review berhasil dihapus.", data: deleted });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ✅ Get Reviews untuk moderasi (staff). Query: status, book_id, page, limit
+export const getReviewsForModeration = async (req: Request, res: Response) => {
+  try {
+    const { status, book_id } = req.query as Record<string, string>;
+    const page = Math.max(1, Number(req.query.page) || 1);
+    const limit = parseLimit(req.query.limit);
+
+    if (status && !Object.values(ReviewStatus).includes(status as ReviewStatus)) {
+      return res.status(400).json({
+        success: false,
+        message: `status harus salah satu dari: ${Object.values(ReviewStatus).join(", ")}.`,
+      });
+    }
+
+    const where = {
+      deleted_at: null as null,
+      ...(status ? { status: status as ReviewStatus } : {}),
+      ...(book_id ? { book_id } : {}),
+    };
+
+    const [total, reviews] = await Promise.all([
+      prisma.reviews.count({ where }),
+      prisma.reviews.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        include: { ...reviewInclude, book: { select: { id: true, title: true } } },
+        orderBy: { created_at: "desc" },
+      }),
+    ]);
+
+    return res.json({
+      success: true,
+      message: "Daftar review berhasil diambil.",
+      data: {
+        items: reviews,
+        pagination: { page, limit, total, total_pages: Math.ceil(total / limit) },
+      },
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ✅ Moderate Review (staff): status visible / hidden + alasan
+export const moderateReview = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const { review_id } = req.params;
+    const { status, reason } = req.body;
+
+    if (!Object.values(ReviewStatus).includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `status harus salah satu dari: ${Object.values(ReviewStatus).join(", ")}.`,
+      });
+    }
+
+    const review = await prisma.reviews.findFirst({
+      where: { id: review_id, deleted_at: null },
+    });
+
+    if (!review) {
+      return res.status(404).json({ success: false, message: "Review tidak ditemukan." });
+    }
+
+    const now = new Date();
+    const updated = await prisma.reviews.update({
+      where: { id: review_id },
+      data: {
+        status,
+        moderation_reason: reason || null,
+        moderated_by: user.id,
+        moderated_at: now,
+        updated_at: now,
+      },
+      include: reviewInclude,
+    });
+
+    await refreshBookRating(review.book_id);
+
+    return res.json({ success: true, message: "Status review berhasil diperbarui.", data: updated });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
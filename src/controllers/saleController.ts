@@ -0,0 +1,234 @@
+import { Request, Response } from "express";
+import { PrismaClient, Prisma, sales } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+const saleInclude = {
+  book: { select: { id: true, title: true, price: true } },
+  genre: { select: { id: true, name: true } },
+};
+
+type SaleFields = Pick<
+  sales,
+  "label" | "book_id" | "genre_id" | "sale_price" | "discount_percent" | "starts_at" | "ends_at"
+>;
+
+const toDate = (value: unknown) => {
+  const date = new Date(value as string);
+  return value && !Number.isNaN(date.getTime()) ? date : null;
+};
+
+// Validasi gabungan data promo (dipakai create & update). Mengembalikan pesan error atau null.
+const validateSale = async (sale: SaleFields) => {
+  if (!sale.book_id === !sale.genre_id) {
+    return "Promo harus untuk salah satu: book_id atau genre_id.";
+  }
+
+  if ((sale.sale_price === null) === (sale.discount_percent === null)) {
+    return "Isi salah satu: sale_price atau discount_percent.";
+  }
+
+  if (sale.sale_price !== null && (Number.isNaN(sale.sale_price) || sale.sale_price < 0)) {
+    return "sale_price harus number dan tidak boleh negatif.";
+  }
+
+  if (
+    sale.discount_percent !== null &&
+    (Number.isNaN(sale.discount_percent) || sale.discount_percent <= 0 || sale.discount_percent >= 100)
+  ) {
+    return "discount_percent harus di antara 0 dan 100.";
+  }
+
+  // Harga tetap tidak masuk akal untuk satu genre dengan harga buku berbeda-beda
+  if (sale.genre_id && sale.sale_price !== null) {
+    return "Promo genre hanya mendukung discount_percent.";
+  }
+
+  if (!sale.starts_at || !sale.ends_at || sale.starts_at >= sale.ends_at) {
+    return "starts_at dan ends_at wajib tanggal valid, dan starts_at harus sebelum ends_at.";
+  }
+
+  if (sale.book_id) {
+    const book = await prisma.books.findFirst({ where: { id: sale.book_id, deleted_at: null } });
+    if (!book) return "Buku tidak ditemukan.";
+  }
+
+  if (sale.genre_id) {
+    const genre = await prisma.genres.findFirst({ where: { id: sale.genre_id, deleted_at: null } });
+    if (!genre) return "Genre tidak ditemukan.";
+  }
+
+  return null;
+};
+
+const toNumberOrNull = (value: unknown) =>
+  value === undefined || value === null || value === "" ? null : Number(value);
+
+// ✅ Create Sale (jadwal promo untuk buku atau genre)
+export const createSale = async (req: Request, res: Response) => {
+  try {
+    const { label, book_id, genre_id, sale_price, discount_percent, starts_at, ends_at } = req.body;
+
+    const fields: SaleFields = {
+      label: label || null,
+      book_id: book_id || null,
+      genre_id: genre_id || null,
+      sale_price: toNumberOrNull(sale_price),
+      discount_percent: toNumberOrNull(discount_percent),
+      starts_at: toDate(starts_at),
+      ends_at: toDate(ends_at),
+    };
+
+    const error = await validateSale(fields);
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    const now = new Date();
+    const sale = await prisma.sales.create({
+      data: {
+        ...fields,
+        created_by: (req as any).user.id,
+        created_at: now,
+        updated_at: now,
+      },
+      include: saleInclude,
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: "Promo berhasil dijadwalkan.",
+      data: sale,
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ✅ Get All Sale
+// Query: status=active|upcoming|ended, book_id, genre_id
+export const getAllSales = async (req: Request, res: Response) => {
+  try {
+    const { status, book_id, genre_id } = req.query as Record<string, string>;
+    const now = new Date();
+
+    const statusWhere: Record<string, Prisma.salesWhereInput> = {
+      active: { starts_at: { lte: now }, ends_at: { gt: now } },
+      upcoming: { starts_at: { gt: now } },
+      ended: { ends_at: { lte: now } },
+    };
+
+    if (status && !statusWhere[status]) {
+      return res.status(400).json({
+        success: false,
+        message: "status harus salah satu dari: active, upcoming, ended.",
+      });
+    }
+
+    const sales = await prisma.sales.findMany({
+      where: {
+        deleted_at: null,
+        ...(status ? statusWhere[status] : {}),
+        ...(book_id ? { book_id } : {}),
+        ...(genre_id ? { genre_id } : {}),
+      },
+      include: saleInclude,
+      orderBy: { starts_at: "desc" },
+    });
+
+    return res.json({
+      success: true,
+      message: "Daftar promo berhasil diambil.",
+      data: sales,
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ✅ Get Sale Detail
+export const getSaleById = async (req: Request, res: Response) => {
+  try {
+    const { sale_id } = req.params;
+
+    const sale = await prisma.sales.findFirst({
+      where: { id: sale_id, deleted_at: null },
+      include: saleInclude,
+    });
+
+    if (!sale) {
+      return res.status(404).json({ success: false, message: "Promo tidak ditemukan." });
+    }
+
+    return res.json({ success: true, message: "Detail promo berhasil diambil.", data: sale });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ✅ Update Sale (mis. memperpanjang ends_at atau mengubah diskon)
+export const updateSale = async (req: Request, res: Response) => {
+  try {
+    const { sale_id } = req.params;
+    const body = req.body;
+
+    const sale = await prisma.sales.findFirst({ where: { id: sale_id, deleted_at: null } });
+    if (!sale) {
+      return res.status(404).json({ success: false, message: "Promo tidak ditemukan." });
+    }
+
+    const fields: SaleFields = {
+      label: body.label !== undefined ? body.label || null : sale.label,
+      book_id: body.book_id !== undefined ? body.book_id || null : sale.book_id,
+      genre_id: body.genre_id !== undefined ? body.genre_id || null : sale.genre_id,
+      sale_price: body.sale_price !== undefined ? toNumberOrNull(body.sale_price) : sale.sale_price,
+      discount_percent:
+        body.discount_percent !== undefined
+          ? toNumberOrNull(body.discount_percent)
+          : sale.discount_percent,
+      starts_at: body.starts_at !== undefined ? toDate(body.starts_at) : sale.starts_at,
+      ends_at: body.ends_at !== undefined ? toDate(body.ends_at) : sale.ends_at,
+    };
+
+    const error = await validateSale(fields);
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    const updated = await prisma.sales.update({
+      where: { id: sale_id },
+      data: { ...fields, updated_at: new Date() },
+      include: saleInclude,
+    });
+
+    return res.json({ success: true, message: "Promo berhasil diperbarui.", data: updated });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ✅ Cancel Sale (soft delete, langsung tidak berlaku lagi)
+export const deleteSale = async (req: Request, res: Response) => {
+  try {
+    const { sale_id } = req.params;
+
+    const sale = await prisma.sales.findFirst({ where: { id: sale_id, deleted_at: null } });
+    if (!sale) {
+      return res.status(404).json({ success: false, message: "Promo tidak ditemukan." });
+    }
+
+    const deleted = await prisma.sales.update({
+      where: { id: sale_id },
+      data: { deleted_at: new Date(), updated_at: new Date() },
+    });
+
+    return res.json({ success: true, message: "Promo berhasil dibatalkan.", data: deleted });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
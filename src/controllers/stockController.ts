@@ -0,0 +1,154 @@
+import { Request, Response } from "express";
+import { PrismaClient, StockMovementType } from "@prisma/client";
+import { HttpError } from "../utils/httpError";
+import { parseLimit } from "../utils/pagination";
+import {
+  MANUAL_MOVEMENT_TYPES,
+  reconcileStock,
+  recordStockMovement,
+} from "../services/stockService";
+
+const prisma = new PrismaClient();
+
+// ====== POST PERGERAKAN STOK (restock, return, adjustment, write_off) ======
+// restock / return / write_off: quantity positif (write_off otomatis mengurangi stok).
+// adjustment: quantity bertanda (+ / -) dan wajib reason.
+export const createStockMovement = async (req: Request, res: Response) => {
+  try {
+    const { book_id } = req.params;
+    const { type, quantity, reason, order_id } = req.body;
+
+    if (!MANUAL_MOVEMENT_TYPES.includes(type)) {
+      return res.status(400).json({
+        success: false,
+        message: `type harus salah satu dari: ${MANUAL_MOVEMENT_TYPES.join(", ")}.`,
+      });
+    }
+
+    const qty = Number(quantity);
+    if (!Number.isInteger(qty) || qty === 0 || (type !== StockMovementType.adjustment && qty < 0)) {
+      return res.status(400).json({
+        success: false,
+        message:
+          type === StockMovementType.adjustment
+            ? "quantity adjustment harus bilangan bulat selain 0."
+            : "quantity harus bilangan bulat lebih dari 0.",
+      });
+    }
+
+    if ((type === StockMovementType.adjustment || type === StockMovementType.write_off) && !reason) {
+      return res.status(400).json({
+        success: false,
+        message: "reason wajib diisi untuk adjustment dan write_off.",
+      });
+    }
+
+    const book = await prisma.books.findFirst({ where: { id: book_id, deleted_at: null } });
+    if (!book) {
+      return res.status(404).json({ success: false, message: "Buku tidak ditemukan." });
+    }
+
+    // Return boleh dikaitkan ke order asal, asal order itu memang berisi buku ini
+    if (order_id) {
+      const orderItem = await prisma.order_items.findFirst({ where: { order_id, book_id } });
+      if (!orderItem) {
+        return res.status(400).json({
+          success: false,
+          message: "order_id tidak valid atau tidak berisi buku ini.",
+        });
+      }
+    }
+
+    const movement = await prisma.$transaction((tx) =>
+      recordStockMovement(tx, {
+        book_id,
+        type,
+        quantity: type === StockMovementType.write_off ? -qty : qty,
+        reason: reason || null,
+        order_id: order_id || null,
+        created_by: (req as any).user.id,
+      })
+    );
+
+    return res.status(201).json({
+      success: true,
+      message: "Pergerakan stok berhasil dicatat.",
+      data: movement,
+    });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ success: false, message: err.message });
+    }
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ====== RIWAYAT PERGERAKAN STOK (terbaru dulu, ?type=&page=&limit=) ======
+export const getStockMovements = async (req: Request, res: Response) => {
+  try {
+    const { book_id } = req.params;
+    const type = req.query.type as StockMovementType | undefined;
+    const page = Math.max(1, Number(req.query.page) || 1);
+    const limit = parseLimit(req.query.limit);
+
+    if (type && !Object.values(StockMovementType).includes(type)) {
+      return res.status(400).json({
+        success: false,
+        message: `type harus salah satu dari: ${Object.values(StockMovementType).join(", ")}.`,
+      });
+    }
+
+    const book = await prisma.books.findUnique({
+      where: { id: book_id },
+      select: { id: true, title: true, stock_quantity: true },
+    });
+    if (!book) {
+      return res.status(404).json({ success: false, message: "Buku tidak ditemukan." });
+    }
+
+    const where = { book_id, ...(type ? { type } : {}) };
+    const [total, movements] = await Promise.all([
+      prisma.stock_movements.count({ where }),
+      prisma.stock_movements.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: [{ created_at: "desc" }, { id: "desc" }],
+      }),
+    ]);
+
+    return res.json({
+      success: true,
+      message: "Riwayat stok berhasil diambil.",
+      data: {
+        book,
+        items: movements,
+        pagination: { page, limit, total, total_pages: Math.ceil(total / limit) },
+      },
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
+
+// ====== REKONSILIASI STOK vs LEDGER ======
+// GET → laporan selisih saja, POST → stok buku disamakan dengan total ledger
+export const reconcileStockLedger = async (req: Request, res: Response) => {
+  try {
+    const apply = req.method === "POST";
+    const result = await reconcileStock(apply);
+
+    return res.json({
+      success: true,
+      message: apply
+        ? "Stok buku berhasil disamakan dengan ledger."
+        : "Rekonsiliasi stok berhasil dihitung.",
+      data: result,
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+  }
+};
@@ -1,20 +1,23 @@
 import { Request, Response } from "express";
-import { PrismaClient } from "@prisma/client";
+import { PrismaClient, Prisma, StockMovementType } from "@prisma/client";
 import { v4 as uuidv4 } from "uuid";
-import jwt from "jsonwebtoken";
+import { isPrivileged } from "../middleware/roleMiddleware";
+import {
+  parseLimit,
+  decodeCursor,
+  encodeCursor,
+  keysetWhere,
+  parseDirection,
+} from "../utils/pagination";
+import { HttpError } from "../utils/httpError";
+import { resolveEffectivePrices } from "../services/pricingService";
+import { recordStockMovement } from "../services/stockService";
+import { recordCoPurchases } from "../services/recommendationService";
 
 const prisma = new PrismaClient();
 
 export const createTransaction = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({
-        success: false,
-        message: "Token tidak ditemukan.",
-      });
-    }
-
     const { user_id, items } = req.body;
 
     // Validasi dasar
@@ -25,6 +28,15 @@ export const createTransaction = async (req: Request, res: Response) => {
       });
     }
 
+    // Customer hanya boleh membuat order untuk dirinya sendiri
+    const currentUser = (req as any).user;
+    if (!isPrivileged(currentUser.role) && user_id !== currentUser.id) {
+      return res.status(403).json({
+        success: false,
+        message: "Akses ditolak. Tidak dapat membuat transaksi untuk user lain.",
+      });
+    }
+
     for (const item of items) {
       if (!item.book_id || typeof item.quantity !== "number") {
         return res.status(400).json({
@@ -32,6 +44,13 @@ export const createTransaction = async (req: Request, res: Response) => {
           message: "Setiap item harus memiliki book_id dan quantity (number)",
         });
       }
+      // quantity minus akan menambah stok lewat ledger, jadi wajib bilangan bulat positif
+      if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+        return res.status(400).json({
+          success: false,
+          message: "quantity harus bilangan bulat lebih dari 0",
+        });
+      }
     }
 
     // ✅ Pastikan user valid
@@ -46,7 +65,16 @@ export const createTransaction = async (req: Request, res: Response) => {
       });
     }
 
+    // Akun yang belum verifikasi email tidak boleh membuat order
+    if (!userExists.verified_at) {
+      return res.status(403).json({
+        success: false,
+        message: "Akun belum terverifikasi. Silakan verifikasi email terlebih dahulu.",
+      });
+    }
+
     // ✅ (Opsional tapi disarankan) Pastikan semua book_id valid
+    const books = [];
     for (const item of items) {
       const bookExists = await prisma.books.findUnique({
         where: { id: item.book_id },
@@ -57,35 +85,65 @@ export const createTransaction = async (req: Request, res: Response) => {
           message: `Buku dengan id ${item.book_id} tidak ditemukan.`,
         });
       }
+      books.push(bookExists);
     }
 
+    // Harga dikunci saat order dibuat (termasuk promo yang sedang aktif)
+    const prices = await resolveEffectivePrices(books);
+
     // ✅ Buat id order dengan UUID (aman & sesuai schema)
     const orderId = uuidv4();
 
-    // Simpan ke tabel orders
-    const order = await prisma.orders.create({
-      data: {
-        id: orderId,
-        user_id,
-        created_at: new Date(),
-        updated_at: new Date(),
-      },
-    });
+    // Order, item, dan pengurangan stok (ledger) dalam satu transaksi:
+    // jika stok salah satu buku tidak cukup, seluruh order dibatalkan
+    const { order, orderItems } = await prisma.$transaction(async (tx) => {
+      // Simpan ke tabel orders
+      const order = await tx.orders.create({
+        data: {
+          id: orderId,
+          user_id,
+          created_at: new Date(),
+          updated_at: new Date(),
+        },
+      });
 
-    // Simpan item-itemnya ke tabel order_items
-    const orderItems = await Promise.all(
-      items.map((item: any) =>
-        prisma.order_items.create({
-          data: {
-            order_id: order.id,
-            book_id: item.book_id,
-            quantity: item.quantity,
-            created_at: new Date(),
-            updated_at: new Date(),
-          },
-        })
-      )
-    );
+      // Simpan item-itemnya ke tabel order_items
+      const orderItems = [];
+      for (const item of items) {
+        orderItems.push(
+          await tx.order_items.create({
+            data: {
+              order_id: order.id,
+              book_id: item.book_id,
+              quantity: item.quantity,
+              unit_price: prices.get(item.book_id).effective_price,
+              created_at: new Date(),
+              updated_at: new Date(),
+            },
+          })
+        );
+      }
+
+      // Baris stok dikunci berurutan book_id supaya order bersamaan tidak saling deadlock
+      const stockItems = [...items].sort((a, b) => a.book_id.localeCompare(b.book_id));
+      for (const item of stockItems) {
+        await recordStockMovement(tx, {
+          book_id: item.book_id,
+          type: StockMovementType.sale,
+          quantity: -item.quantity,
+          order_id: order.id,
+          created_by: currentUser.id,
+        });
+      }
+
+      // Statistik "dibeli bersamaan" untuk rekomendasi
+      await recordCoPurchases(
+        tx,
+        items.map((item: any) => item.book_id)
+      );
+
+      return { order, orderItems };
+    });
 
     return res.status(201).json({
       success: true,
@@ -96,6 +154,9 @@ export const createTransaction = async (req: Request, res: Response) => {
       },
     });
   } catch (error: any) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ success: false, message: error.message });
+    }
     console.error("ERROR:", error);
     return res.status(500).json({
       success: false,
@@ -107,66 +168,129 @@ export const createTransaction = async (req: Request, res: Response) => {
 
 export const getAllTransactions = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({
-        success: false,
-        message: "Akses ditolak. Token tidak ditemukan.",
-      });
-    }
-
-    // Ambil token
-    const token = authHeader.split(" ")[1];
-    const decoded: any = jwt.verify(token, process.env.JWT_SECRET as string);
-    const userId = decoded.id;
+    // User login sudah diverifikasi oleh authenticateUser
+    const userId = (req as any).user.id;
 
     // Ambil query param
     const page = Number(req.query.page) || 1;
-    const limit = Number(req.query.limit) || 10;
+    const limit = parseLimit(req.query.limit);
     const search = (req.query.search as string) || "";
-    const orderById = (req.query.orderById as "asc" | "desc") || "asc";
-    const orderByAmount = (req.query.orderByAmount as "asc" | "desc") || "";
-    const orderByPrice = (req.query.orderByPrice as "asc" | "desc") || "";
+    const orderById = parseDirection(req.query.orderById, "orderById") || "asc";
+    const orderByCreatedAt = parseDirection(req.query.orderByCreatedAt, "orderByCreatedAt");
+    const orderByAmount = parseDirection(req.query.orderByAmount, "orderByAmount");
+    const orderByPrice = parseDirection(req.query.orderByPrice, "orderByPrice");
+    const after = req.query.after as string;
+    const before = req.query.before as string;
+    const cursorMode = req.query.pagination === "cursor" || !!after || !!before;
 
     const skip = (page - 1) * limit;
 
-    // Ambil data dari database HANYA untuk user yang login
-    const transactions = await prisma.orders.findMany({
-      skip,
-      take: limit,
-      where: {
-        user_id: userId, // filter transaksi milik user login
-        OR: [
-          {
-            id: { contains: search, mode: "insensitive" },
-          },
-          {
-            user: {
-              username: { contains: search, mode: "insensitive" },
-            },
-          },
-        ],
-      },
-      include: {
-        user: { select: { id: true, username: true, email: true } },
-        order_items: {
-          include: {
-            book: { select: { id: true, title: true, price: true } },
+    // Total & rata-rata dihitung setelah query, jadi tidak bisa dipakai sebagai cursor
+    if (cursorMode && (orderByAmount || orderByPrice)) {
+      return res.status(400).json({
+        success: false,
+        message: "orderByAmount / orderByPrice hanya didukung pada mode page & limit.",
+      });
+    }
+
+    const where: Prisma.ordersWhereInput = {
+      user_id: userId, // filter transaksi milik user login
+      OR: [
+        {
+          id: { contains: search, mode: "insensitive" },
+        },
+        {
+          user: {
+            username: { contains: search, mode: "insensitive" },
           },
         },
+      ],
+    };
+
+    const include = {
+      user: { select: { id: true, username: true, email: true } },
+      order_items: {
+        include: {
+          book: { select: { id: true, title: true, price: true } },
+        },
       },
-      orderBy: [{ id: orderById }],
-    });
+    } satisfies Prisma.ordersInclude;
+
+    const sortField = orderByCreatedAt ? "created_at" : "id";
+    const sortDirection = orderByCreatedAt || orderById;
+
+    let transactions: Prisma.ordersGetPayload<{ include: typeof include }>[];
+    let cursorPagination;
+
+    if (cursorMode) {
+      const backwards = !!before && !after;
+      const cursor = after || before;
+      let keyset: Prisma.ordersWhereInput = {};
+      if (cursor) {
+        const payload = decodeCursor(
+          cursor,
+          sortField,
+          sortDirection,
+          sortField === "created_at" ? "date" : "string"
+        );
+        const value = sortField === "created_at" ? new Date(payload.v) : payload.v;
+        keyset = keysetWhere(sortField, sortDirection, value, payload.id, backwards);
+      }
+
+      // Mundur = ambil dengan urutan terbalik lalu dibalik lagi
+      const queryDirection = backwards ? (sortDirection === "asc" ? "desc" : "asc") : sortDirection;
+      const rows = await prisma.orders.findMany({
+        take: limit + 1,
+        where: { AND: [where, keyset] },
+        include,
+        orderBy:
+          sortField === "id"
+            ? [{ id: queryDirection }]
+            : [{ created_at: queryDirection }, { id: queryDirection }],
+      });
+
+      const hasMore = rows.length > limit;
+      transactions = rows.slice(0, limit);
+      if (backwards) transactions.reverse();
+
+      const toCursor = (t: (typeof transactions)[number]) =>
+        encodeCursor({
+          f: sortField,
+          d: sortDirection,
+          v: sortField === "created_at" ? t.created_at.toISOString() : t.id,
+          id: t.id,
+        });
+      const first = transactions[0];
+      const last = transactions[transactions.length - 1];
+
+      cursorPagination = {
+        limit,
+        next_cursor: last && (backwards || hasMore) ? toCursor(last) : null,
+        prev_cursor: first && (backwards ? hasMore : !!cursor) ? toCursor(first) : null,
+      };
+    } else {
+      // Ambil data dari database HANYA untuk user yang login
+      transactions = await prisma.orders.findMany({
+        skip,
+        take: limit,
+        where,
+        include,
+        orderBy:
+          sortField === "id"
+            ? [{ id: sortDirection }]
+            : [{ created_at: sortDirection }, { id: sortDirection }],
+      });
+    }
 
     // Hitung total dan rata-rata
     const transactionsWithTotals = transactions.map((t) => {
       const totalAmount = t.order_items.reduce(
-        (sum, item) => sum + item.quantity * item.book.price,
+        (sum, item) => sum + item.quantity * item.unit_price,
         0
       );
       const avgPrice =
         t.order_items.length > 0
-          ? t.order_items.reduce((sum, item) => sum + item.book.price, 0) /
+          ? t.order_items.reduce((sum, item) => sum + item.unit_price, 0) /
             t.order_items.length
           : 0;
 
@@ -189,9 +313,15 @@ export const getAllTransactions = async (req: Request, res: Response) => {
     return res.status(200).json({
       success: true,
       message: "Transaksi user berhasil diambil",
-      data: transactionsWithTotals,
+      // Mode offset tetap mengembalikan array agar klien lama tidak rusak
+      data: cursorMode
+        ? { items: transactionsWithTotals, pagination: cursorPagination }
+        : transactionsWithTotals,
     });
   } catch (error: any) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ success: false, message: error.message });
+    }
     console.error("ERROR:", error);
     return res.status(500).json({
       success: false,
@@ -203,14 +333,6 @@ export const getAllTransactions = async (req: Request, res: Response) => {
 
 export const getTransactionById = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({
-        success: false,
-        message: "Token tidak ditemukan.",
-      });
-    }
-
     const { id } = req.params;
 
     // Validasi input
@@ -238,7 +360,12 @@ export const getTransactionById = async (req: Request, res: Response) => {
       },
     });
 
-    if (!transaction) {
+    // Customer hanya boleh melihat transaksinya sendiri
+    const currentUser = (req as any).user;
+    if (
+      !transaction ||
+      (!isPrivileged(currentUser.role) && transaction.user_id !== currentUser.id)
+    ) {
       return res.status(404).json({
         success: false,
         message: "Transaction tidak ditemukan",
@@ -263,14 +390,6 @@ export const getTransactionById = async (req: Request, res: Response) => {
 // // GET statistik transaksi
 export const getTransactionStats = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({
-        success: false,
-        message: "Token tidak ditemukan.",
-      });
-    }
-    
     // Ambil semua transaksi lengkap dengan item dan buku + genre
     const transactions = await prisma.orders.findMany({
       include: {
@@ -278,7 +397,7 @@ export const getTransactionStats = async (req: Request, res: Response) => {
           include: {
             book: {
               include: {
-                genre: true,
+                genres: { include: { genre: true } },
               },
             },
           },
@@ -305,7 +424,7 @@ export const getTransactionStats = async (req: Request, res: Response) => {
     // Hitung nominal tiap transaksi
     const transactionTotals = transactions.map((t) =>
       t.order_items.reduce(
-        (sum, item) => sum + item.quantity * item.book.price,
+        (sum, item) => sum + item.quantity * item.unit_price,
         0
       )
     );
@@ -314,11 +433,11 @@ export const getTransactionStats = async (req: Request, res: Response) => {
     const avgTransactionValue =
       transactionTotals.reduce((a, b) => a + b, 0) / totalTransactions;
 
-    // Hitung jumlah transaksi per genre
+    // Hitung jumlah transaksi per genre (buku multi-genre dihitung di setiap genrenya)
     const genreStats: Record<string, number> = {};
     transactions.forEach((t) => {
       const uniqueGenres = new Set(
-        t.order_items.map((item) => item.book.genre?.name)
+        t.order_items.flatMap((item) => item.book.genres.map((link) => link.genre.name))
       );
       uniqueGenres.forEach((genre) => {
         if (!genre) return;
@@ -0,0 +1,171 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import { HttpError } from "../utils/httpError";
+import { parseLimit } from "../utils/pagination";
+import {
+  TRASH_RETENTION_DAYS,
+  purgeAt,
+  purgeBook,
+  purgeExpiredTrash,
+  purgeGenre,
+  purgeableBookWhere,
+  purgeableGenreWhere,
+  restoreBook,
+  restoreGenre,
+} from "../services/trashService";
+
+const prisma = new PrismaClient();
+
+const handleError = (res: Response, err: unknown) => {
+  if (err instanceof HttpError) {
+    return res.status(err.status).json({ success: false, message: err.message });
+  }
+  console.error(err);
+  return res.status(500).json({ success: false, message: "Terjadi kesalahan server." });
+};
+
+// ====== LIST BUKU DI TRASH (terakhir dihapus dulu, ?search=&page=&limit=) ======
+// purgeable = boleh dihapus permanen, purge_at = jadwal hapus otomatis
+export const getDeletedBooks = async (req: Request, res: Response) => {
+  try {
+    const search = req.query.search as string | undefined;
+    const page = Math.max(1, Number(req.query.page) || 1);
+    const limit = parseLimit(req.query.limit);
+
+    const where = {
+      NOT: { deleted_at: null as null },
+      ...(search ? { title: { contains: search, mode: "insensitive" as const } } : {}),
+    };
+
+    const [total, books] = await Promise.all([
+      prisma.books.count({ where }),
+      prisma.books.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          genre: { select: { id: true, name: true } },
+          _count: { select: { order_items: true } },
+        },
+        orderBy: [{ deleted_at: "desc" }, { id: "desc" }],
+      }),
+    ]);
+
+    return res.json({
+      success: true,
+      message: "Daftar buku di trash berhasil diambil.",
+      data: {
+        items: books.map(({ _count, ...book }) => ({
+          ...book,
+          purgeable: _count.order_items === 0,
+          purge_at: _count.order_items === 0 ? purgeAt(book.deleted_at) : null,
+        })),
+        pagination: { page, limit, total, total_pages: Math.ceil(total / limit) },
+      },
+    });
+  } catch (err) {
+    return handleError(res, err);
+  }
+};
+
+// ====== LIST GENRE DI TRASH ======
+export const getDeletedGenres = async (req: Request, res: Response) => {
+  try {
+    const [genres, purgeable] = await Promise.all([
+      prisma.genres.findMany({
+        where: { NOT: { deleted_at: null } },
+        orderBy: { deleted_at: "desc" },
+      }),
+      prisma.genres.findMany({ where: purgeableGenreWhere, select: { id: true } }),
+    ]);
+    const purgeableIds = new Set(purgeable.map((genre) => genre.id));
+
+    return res.json({
+      success: true,
+      message: "Daftar genre di trash berhasil diambil.",
+      data: genres.map((genre) => ({
+        ...genre,
+        purgeable: purgeableIds.has(genre.id),
+        purge_at: purgeableIds.has(genre.id) ? purgeAt(genre.deleted_at) : null,
+      })),
+    });
+  } catch (err) {
+    return handleError(res, err);
+  }
+};
+
+// ====== RESTORE BUKU ======
+export const restoreDeletedBook = async (req: Request, res: Response) => {
+  try {
+    const book = await restoreBook(req.params.book_id);
+    return res.json({ success: true, message: "Buku berhasil dipulihkan.", data: book });
+  } catch (err) {
+    return handleError(res, err);
+  }
+};
+
+// ====== RESTORE GENRE ======
+export const restoreDeletedGenre = async (req: Request, res: Response) => {
+  try {
+    const genre = await restoreGenre(req.params.genre_id);
+    return res.json({ success: true, message: "Genre berhasil dipulihkan.", data: genre });
+  } catch (err) {
+    return handleError(res, err);
+  }
+};
+
+// ====== HAPUS PERMANEN BUKU (hanya jika tidak pernah dipesan) ======
+export const purgeDeletedBook = async (req: Request, res: Response) => {
+  try {
+    const book = await purgeBook(req.params.book_id);
+    return res.json({
+      success: true,
+      message: "Buku berhasil dihapus permanen.",
+      data: { id: book.id, title: book.title },
+    });
+  } catch (err) {
+    return handleError(res, err);
+  }
+};
+
+// ====== HAPUS PERMANEN GENRE (hanya jika tidak dipakai buku) ======
+export const purgeDeletedGenre = async (req: Request, res: Response) => {
+  try {
+    const genre = await purgeGenre(req.params.genre_id);
+    return res.json({
+      success: true,
+      message: "Genre berhasil dihapus permanen.",
+      data: { id: genre.id, name: genre.name },
+    });
+  } catch (err) {
+    return handleError(res, err);
+  }
+};
+
+// ====== JALANKAN RETENSI SEKARANG ======
+// older_than_days default = TRASH_RETENTION_DAYS. Buku yang pernah dipesan selalu dilewati.
+export const purgeTrash = async (req: Request, res: Response) => {
+  try {
+    const days =
+      req.query.older_than_days !== undefined
+        ? Number(req.query.older_than_days)
+        : TRASH_RETENTION_DAYS;
+
+    if (!Number.isInteger(days) || days <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: "older_than_days harus bilangan bulat lebih dari 0.",
+      });
+    }
+
+    const result = await purgeExpiredTrash(days);
+
+    return res.json({
+      success: true,
+      message: "Trash berhasil dibersihkan.",
+      data: result,
+    });
+  } catch (err) {
+    return handleError(res, err);
+  }
+};
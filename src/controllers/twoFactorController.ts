@@ -0,0 +1,439 @@
+import { Request, Response } from "express";
+import { PrismaClient, Role, users } from "@prisma/client";
+import bcrypt from "bcrypt";
+import crypto from "crypto";
+import { generateTotpSecret, verifyTotp, totpUri } from "../utils/totp";
+import {
+  hashToken,
+  signAccessToken,
+  verifyTwoFactorChallenge,
+} from "../utils/token";
+import { createSession } from "../services/sessionService";
+import {
+  LOGIN_LOCK_MS,
+  getLockRetryAfter,
+  recordFailedLogin,
+  resetFailedLogins,
+} from "../services/loginAttemptService";
+import {
+  getTwoFactorRequiredRoles,
+  setTwoFactorRequiredRoles,
+} from "../services/settingsService";
+
+const prisma = new PrismaClient();
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || "IT Literature Shop";
+const RECOVERY_CODE_COUNT = 10;
+const PRIVILEGED_ROLES: Role[] = [Role.staff, Role.admin];
+
+// Kode cadangan format xxxxx-xxxxx, dinormalisasi sebelum di-hash
+const normalizeRecoveryCode = (code: string) =>
+  String(code).replace(/[\s-]/g, "").toLowerCase();
+
+// Ganti seluruh kode cadangan user, kode mentah hanya dikembalikan sekali
+const issueRecoveryCodes = async (userId: string) => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.recovery_codes.deleteMany({ where: { user_id: userId } }),
+    prisma.recovery_codes.createMany({
+      data: codes.map((code) => ({
+        user_id: userId,
+        code_hash: hashToken(normalizeRecoveryCode(code)),
+        created_at: now,
+      })),
+    }),
+  ]);
+
+  return codes;
+};
+
+// Pakai satu kode cadangan. true jika kode valid dan belum pernah dipakai.
+const consumeRecoveryCode = async (userId: string, code: string) => {
+  const { count } = await prisma.recovery_codes.updateMany({
+    where: {
+      user_id: userId,
+      code_hash: hashToken(normalizeRecoveryCode(code)),
+      used_at: null,
+    },
+    data: { used_at: new Date() },
+  });
+
+  return count > 0;
+};
+
+// Pakai satu kode TOTP. true jika kode valid dan time step-nya lebih baru dari kode terakhir
+// yang diterima. Update bersyarat mencegah dua request bersamaan memakai kode yang sama.
+const consumeTotp = async (user: users, code: string) => {
+  const counter = verifyTotp(user.totp_secret, code, user.totp_last_counter);
+  if (counter === null) return false;
+
+  const { count } = await prisma.users.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ totp_last_counter: null }, { totp_last_counter: { lt: counter } }],
+    },
+    data: { totp_last_counter: counter },
+  });
+
+  return count > 0;
+};
+
+// ✅ Enroll 2FA → secret + otpauth URI untuk di-scan aplikasi authenticator
+export const enrollTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.users.findUnique({
+      where: { id: (req as any).user.id },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User tidak ditemukan.",
+      });
+    }
+
+    if (user.totp_enabled_at) {
+      return res.status(400).json({
+        success: false,
+        message: "2FA sudah aktif.",
+      });
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.users.update({
+      where: { id: user.id },
+      data: { totp_secret: secret, totp_last_counter: null, updated_at: new Date() },
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: "Scan URI dengan aplikasi authenticator lalu konfirmasi dengan kode pertama.",
+      data: {
+        secret,
+        otpauth_uri: totpUri(secret, user.email, TOTP_ISSUER),
+      },
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Konfirmasi enroll dengan kode pertama → 2FA aktif + kode cadangan
+export const confirmTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({
+        success: false,
+        message: "Kode 2FA wajib diisi.",
+      });
+    }
+
+    const user = await prisma.users.findUnique({
+      where: { id: (req as any).user.id },
+    });
+
+    if (!user || !user.totp_secret) {
+      return res.status(400).json({
+        success: false,
+        message: "Lakukan enroll 2FA terlebih dahulu.",
+      });
+    }
+
+    if (user.totp_enabled_at) {
+      return res.status(400).json({
+        success: false,
+        message: "2FA sudah aktif.",
+      });
+    }
+
+    if (!(await consumeTotp(user, code))) {
+      return res.status(400).json({
+        success: false,
+        message: "Kode 2FA salah.",
+      });
+    }
+
+    await prisma.users.update({
+      where: { id: user.id },
+      data: { totp_enabled_at: new Date(), updated_at: new Date() },
+    });
+
+    // Sesi saat ini sudah membuktikan kepemilikan authenticator
+    await prisma.sessions.update({
+      where: { id: (req as any).user.sid },
+      data: { two_factor_verified: true, updated_at: new Date() },
+    });
+
+    const recoveryCodes = await issueRecoveryCodes(user.id);
+
+    return res.status(200).json({
+      success: true,
+      message: "2FA berhasil diaktifkan. Simpan kode cadangan, kode tidak akan ditampilkan lagi.",
+      data: { recovery_codes: recoveryCodes },
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Buat ulang kode cadangan (kode lama hangus)
+export const regenerateRecoveryCodes = async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+
+    const user = await prisma.users.findUnique({
+      where: { id: (req as any).user.id },
+    });
+
+    if (!user || !user.totp_enabled_at) {
+      return res.status(400).json({
+        success: false,
+        message: "2FA belum aktif.",
+      });
+    }
+
+    if (!code || !(await consumeTotp(user, code))) {
+      return res.status(400).json({
+        success: false,
+        message: "Kode 2FA salah.",
+      });
+    }
+
+    const recoveryCodes = await issueRecoveryCodes(user.id);
+
+    return res.status(200).json({
+      success: true,
+      message: "Kode cadangan baru berhasil dibuat.",
+      data: { recovery_codes: recoveryCodes },
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Nonaktifkan 2FA (butuh password + kode)
+export const disableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { password, code } = req.body;
+
+    if (!password || !code) {
+      return res.status(400).json({
+        success: false,
+        message: "Password dan kode 2FA wajib diisi.",
+      });
+    }
+
+    const user = await prisma.users.findUnique({
+      where: { id: (req as any).user.id },
+    });
+
+    if (!user || !user.totp_enabled_at) {
+      return res.status(400).json({
+        success: false,
+        message: "2FA belum aktif.",
+      });
+    }
+
+    const requiredRoles = await getTwoFactorRequiredRoles();
+    if (requiredRoles.includes(user.role)) {
+      return res.status(403).json({
+        success: false,
+        message: "2FA wajib untuk role kamu dan tidak dapat dinonaktifkan.",
+      });
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!isPasswordValid || !(await consumeTotp(user, code))) {
+      return res.status(400).json({
+        success: false,
+        message: "Password atau kode 2FA salah.",
+      });
+    }
+
+    await prisma.$transaction([
+      prisma.users.update({
+        where: { id: user.id },
+        data: {
+          totp_secret: null,
+          totp_enabled_at: null,
+          totp_last_counter: null,
+          updated_at: new Date(),
+        },
+      }),
+      prisma.recovery_codes.deleteMany({ where: { user_id: user.id } }),
+    ]);
+
+    return res.status(200).json({
+      success: true,
+      message: "2FA berhasil dinonaktifkan.",
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Login langkah kedua: challenge_token + kode TOTP atau kode cadangan
+export const verifyLoginTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { challenge_token, code, recovery_code } = req.body;
+
+    if (!challenge_token || (!code && !recovery_code)) {
+      return res.status(400).json({
+        success: false,
+        message: "challenge_token dan code (atau recovery_code) wajib diisi.",
+      });
+    }
+
+    const userId = verifyTwoFactorChallenge(challenge_token);
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Challenge tidak valid atau sudah kedaluwarsa. Silakan login ulang.",
+      });
+    }
+
+    const user = await prisma.users.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user || !user.totp_enabled_at) {
+      return res.status(401).json({
+        success: false,
+        message: "Challenge tidak valid atau sudah kedaluwarsa. Silakan login ulang.",
+      });
+    }
+
+    const retryAfter = getLockRetryAfter(user);
+    if (retryAfter) {
+      res.setHeader("Retry-After", retryAfter);
+      return res.status(423).json({
+        success: false,
+        message: `Akun dikunci sementara. Coba lagi dalam ${retryAfter} detik.`,
+        data: { locked_until: user.locked_until },
+      });
+    }
+
+    const isCodeValid = code
+      ? await consumeTotp(user, code)
+      : await consumeRecoveryCode(user.id, recovery_code);
+
+    if (!isCodeValid) {
+      // Tebakan kode ikut dihitung sebagai login gagal
+      const lockedUntil = await recordFailedLogin(user);
+
+      if (lockedUntil) {
+        res.setHeader("Retry-After", Math.ceil(LOGIN_LOCK_MS / 1000));
+        return res.status(423).json({
+          success: false,
+          message: "Terlalu banyak percobaan login gagal. Akun dikunci sementara.",
+          data: { locked_until: lockedUntil },
+        });
+      }
+
+      return res.status(400).json({
+        success: false,
+        message: "Kode 2FA salah.",
+      });
+    }
+
+    await resetFailedLogins(user);
+
+    const { session, refreshToken } = await createSession(user.id, true);
+    const token = signAccessToken(user, session.id, true);
+
+    return res.status(200).json({
+      success: true,
+      message: "Login berhasil.",
+      data: {
+        token,
+        refresh_token: refreshToken,
+        user: {
+          id: user.id,
+          username: user.username,
+          email: user.email,
+          role: user.role,
+          verified_at: user.verified_at,
+        },
+      },
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Lihat kebijakan 2FA wajib (khusus admin)
+export const getTwoFactorPolicy = async (req: Request, res: Response) => {
+  try {
+    const requiredRoles = await getTwoFactorRequiredRoles();
+
+    return res.status(200).json({
+      success: true,
+      message: "Kebijakan 2FA berhasil diambil.",
+      data: { required_roles: requiredRoles },
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// ✅ Atur role privileged yang wajib 2FA (khusus admin)
+export const updateTwoFactorPolicy = async (req: Request, res: Response) => {
+  try {
+    const { required_roles } = req.body;
+
+    if (
+      !Array.isArray(required_roles) ||
+      !required_roles.every((role) => PRIVILEGED_ROLES.includes(role))
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: `required_roles harus berupa array berisi: ${PRIVILEGED_ROLES.join(", ")}.`,
+      });
+    }
+
+    await setTwoFactorRequiredRoles(required_roles);
+
+    return res.status(200).json({
+      success: true,
+      message: "Kebijakan 2FA berhasil diperbarui.",
+      data: { required_roles },
+    });
+  } catch (error: any) {
+    console.error(error);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
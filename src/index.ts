@@ -1,5 +1,6 @@
+// Muat .env sebelum modul lain membaca process.env saat di-import
+import 'dotenv/config';
 import express, { Application, Request, Response } from 'express';
-import dotenv from 'dotenv';
 import prisma from './config/prisma';
 import cors from 'cors';
 
@@ -9,32 +10,59 @@ import genreRoutes from './routes/genreRoutes';
 import libraryRoutes from './routes/libraryRoutes';
 import transactionRoutes from './routes/transactionRoutes';
 import healthcheckRoutes from "./routes/healthcheckRoutes";
+import apiKeyRoutes from "./routes/apiKeyRoutes";
+import authorRoutes from "./routes/authorRoutes";
+import publisherRoutes from "./routes/publisherRoutes";
+import reviewRoutes from "./routes/reviewRoutes";
+import saleRoutes from "./routes/saleRoutes";
+import notificationRoutes from "./routes/notificationRoutes";
+import trashRoutes from "./routes/trashRoutes";
 
 
-import { authenticateUser } from "./middleware/authMiddleware";
+import { authenticateUser, authenticateApiKeyOrUser } from "./middleware/authMiddleware";
+import { LOCAL_FILES_PATH, LOCAL_STORAGE_DIR } from "./services/storageService";
+import { startTrashPurgeJob } from "./services/trashService";
 
 
-dotenv.config();
-
 const app: Application = express();
 const PORT = process.env.PORT || 8080;
 
+// Di belakang load balancer/proxy, req.ip (dipakai rate limiter) diambil dari X-Forwarded-For
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", process.env.TRUST_PROXY);
+}
+
 
 app.use(cors({
   origin: "http://localhost:5173",
-  credentials: true
+  credentials: true,
+  // ETag perlu terbaca oleh frontend untuk dikirim balik sebagai If-Match / If-None-Match
+  exposedHeaders: ["ETag"]
 }));
 
 // Middleware
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
+// File dari storage lokal (cover buku). Nama file berversi, jadi aman di-cache lama.
+app.use(
+  LOCAL_FILES_PATH,
+  express.static(LOCAL_STORAGE_DIR, { maxAge: "365d", immutable: true, index: false })
+);
+
 app.use("/health", healthcheckRoutes);
 app.use('/auth', authRoutes);
 
-app.use("/genre", authenticateUser, genreRoutes);
-app.use("/books", authenticateUser, libraryRoutes);
-app.use("/transactions", authenticateUser, transactionRoutes);
+app.use("/genre", authenticateApiKeyOrUser, genreRoutes);
+app.use("/books", authenticateApiKeyOrUser, libraryRoutes);
+app.use("/authors", authenticateApiKeyOrUser, authorRoutes);
+app.use("/publishers", authenticateApiKeyOrUser, publisherRoutes);
+app.use("/reviews", authenticateApiKeyOrUser, reviewRoutes);
+app.use("/sales", authenticateApiKeyOrUser, saleRoutes);
+app.use("/notifications", authenticateApiKeyOrUser, notificationRoutes);
+app.use("/trash", authenticateApiKeyOrUser, trashRoutes);
+app.use("/transactions", authenticateApiKeyOrUser, transactionRoutes);
+app.use("/api-keys", authenticateUser, apiKeyRoutes);
 
 // Test route
 app.get('/', (req: Request, res: Response) => {
@@ -48,6 +76,8 @@ app.use((req: Request, res: Response) => {
 // Start server
 app.listen(PORT, () => {
   console.log(`Server berjalan di http://localhost:${PORT}`);
+  // Hapus permanen isi trash yang melewati TRASH_RETENTION_DAYS
+  startTrashPurgeJob();
 });
 
 // Graceful shutdown
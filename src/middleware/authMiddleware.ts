@@ -1,23 +1,16 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
+import { getJwtSecret } from "../utils/token";
+import { isSessionActive } from "../services/sessionService";
+import { findActiveApiKey, touchApiKey } from "../services/apiKeyService";
 
-// Gantilah dengan secret environment kamu (.env)
-const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
-
-export const authenticateUser = (
+export const authenticateUser = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  // Bypass route auth
-  const url = req.originalUrl;
-if (url.startsWith("/auth") || url.startsWith("/health")) {
-  return next();
-}
-
   // Ambil token dari header Authorization
   const authHeader = req.headers.authorization;
-  console.log("Authorization Header:", authHeader);
 
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
     return res.status(401).json({
@@ -28,18 +21,73 @@ if (url.startsWith("/auth") || url.startsWith("/health")) {
 
   const token = authHeader.split(" ")[1];
 
+  let decoded: any;
+  try {
+    decoded = jwt.verify(token, getJwtSecret());
+  } catch (err) {
+    return res.status(401).json({
+      success: false,
+      message: "Token tidak valid atau sudah kedaluwarsa.",
+    });
+  }
+
   try {
-    console.log("Authorization Header:", authHeader);
-    console.log("JWT_SECRET:", JWT_SECRET);
-    console.log("Token yang akan diverifikasi:", token);
+    // Token harus terikat ke sesi yang belum di-logout / dicabut
+    if (!decoded.sid || !(await isSessionActive(decoded.sid))) {
+      return res.status(401).json({
+        success: false,
+        message: "Sesi sudah berakhir. Silakan login kembali.",
+      });
+    }
 
-    const decoded = jwt.verify(token, JWT_SECRET) as any;
     (req as any).user = decoded; // simpan info user ke request
     next();
   } catch (err) {
-    return res.status(401).json({
+    console.error(err);
+    return res.status(500).json({
       success: false,
-      message: "Token tidak valid atau sudah kedaluwarsa.",
+      message: "Terjadi kesalahan server.",
+    });
+  }
+};
+
+// Untuk route resource: terima header X-API-Key, atau Bearer token seperti biasa
+export const authenticateApiKeyOrUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const apiKeyHeader = req.headers["x-api-key"];
+  if (!apiKeyHeader) {
+    return authenticateUser(req, res, next);
+  }
+
+  try {
+    const apiKey = await findActiveApiKey(String(apiKeyHeader));
+    if (!apiKey) {
+      return res.status(401).json({
+        success: false,
+        message: "API key tidak valid atau sudah dicabut.",
+      });
+    }
+
+    // Role mengikuti pemilik key, scope membatasi aksi yang boleh dilakukan.
+    // Key dianggap lolos kebijakan wajib 2FA hanya jika pemiliknya sudah mengaktifkan 2FA.
+    (req as any).user = {
+      id: apiKey.user_id,
+      role: apiKey.user.role,
+      api_key_id: apiKey.id,
+      scopes: apiKey.scopes,
+      mfa: !!apiKey.user.totp_enabled_at,
+    };
+
+    touchApiKey(apiKey.id).catch((err) => console.error(err));
+    next();
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({
+      success: false,
+      message: "Terjadi kesalahan server.",
     });
   }
 };
@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Request, Response } from "express";
+import { authAccountRateLimit } from "./rateLimitMiddleware";
+import { signTwoFactorChallenge } from "../utils/token";
+
+const callLimiter = async (body: Record<string, unknown>, ip: string) => {
+  let status = 200;
+  const res = {
+    setHeader: () => res,
+    status: (code: number) => {
+      status = code;
+      return res;
+    },
+    json: () => res,
+  } as unknown as Response;
+
+  await authAccountRateLimit({ body, ip } as Request, res, () => undefined);
+  return status;
+};
+
+test("login 2FA dibatasi per akun walaupun datang dari IP berbeda", async () => {
+  const statuses = [];
+  for (let i = 0; i < 11; i += 1) {
+    // challenge baru tiap percobaan tetap milik user yang sama
+    const challenge = signTwoFactorChallenge("user-2fa");
+    statuses.push(await callLimiter({ challenge_token: challenge, code: "000000" }, `10.0.0.${i}`));
+  }
+
+  assert.deepEqual(statuses.slice(0, 10), Array(10).fill(200));
+  assert.equal(statuses[10], 429);
+});
+
+test("challenge_token palsu tidak membuat counter per akun", async () => {
+  for (let i = 0; i < 11; i += 1) {
+    assert.equal(await callLimiter({ challenge_token: "palsu", code: "000000" }, "10.0.1.1"), 200);
+  }
+});
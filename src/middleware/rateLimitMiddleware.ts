@@ -0,0 +1,67 @@
+import { Request, Response, NextFunction } from "express";
+import { getRateLimitStore } from "../services/rateLimitStore";
+import { verifyTwoFactorChallenge } from "../utils/token";
+
+interface RateLimitOptions {
+  name: string; // prefix key, supaya limiter berbeda tidak saling berbagi counter
+  windowMs: number;
+  max: number;
+  // Kembalikan null untuk melewati limiter (mis. body tidak berisi email)
+  key: (req: Request) => string | null;
+}
+
+export const rateLimit = ({ name, windowMs, max, key }: RateLimitOptions) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const id = key(req);
+    if (!id) return next();
+
+    try {
+      const hit = await getRateLimitStore().increment(`${name}:${id}`, windowMs);
+      const retryAfter = Math.max(1, Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000));
+
+      res.setHeader("RateLimit-Limit", max);
+      res.setHeader("RateLimit-Remaining", Math.max(0, max - hit.count));
+      res.setHeader("RateLimit-Reset", retryAfter);
+
+      if (hit.count > max) {
+        res.setHeader("Retry-After", retryAfter);
+        return res.status(429).json({
+          success: false,
+          message: `Terlalu banyak permintaan. Coba lagi dalam ${retryAfter} detik.`,
+        });
+      }
+
+      next();
+    } catch (err) {
+      // Store bermasalah jangan sampai mematikan endpoint auth
+      console.error(err);
+      next();
+    }
+  };
+};
+
+const minutes = (value: string | undefined, fallback: number) =>
+  (Number(value) || fallback) * 60 * 1000;
+
+// Per IP untuk seluruh route /auth
+export const authIpRateLimit = rateLimit({
+  name: "auth-ip",
+  windowMs: minutes(process.env.AUTH_RATE_LIMIT_WINDOW_MINUTES, 15),
+  max: Number(process.env.AUTH_RATE_LIMIT_MAX) || 100,
+  key: (req) => req.ip || null,
+});
+
+// Per akun: email di body, atau user id dari challenge_token pada login langkah kedua (2FA)
+export const authAccountRateLimit = rateLimit({
+  name: "auth-account",
+  windowMs: minutes(process.env.AUTH_ACCOUNT_RATE_LIMIT_WINDOW_MINUTES, 15),
+  max: Number(process.env.AUTH_ACCOUNT_RATE_LIMIT_MAX) || 10,
+  key: (req) => {
+    if (typeof req.body?.email === "string") return req.body.email.trim().toLowerCase();
+    if (typeof req.body?.challenge_token === "string") {
+      const userId = verifyTwoFactorChallenge(req.body.challenge_token);
+      return userId ? `user:${userId}` : null;
+    }
+    return null;
+  },
+});
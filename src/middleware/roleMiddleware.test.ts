@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { Request, Response } from "express";
+import { Role } from "@prisma/client";
+import prisma from "../config/prisma";
+import { authorizeRoles, isPrivileged } from "./roleMiddleware";
+
+const originalSettings = prisma.app_settings;
+
+beforeEach(() => {
+  // Kebijakan: staff & admin wajib 2FA
+  (prisma as any).app_settings = {
+    findUnique: async () => ({ value: [Role.staff, Role.admin] }),
+  };
+});
+
+afterEach(() => {
+  (prisma as any).app_settings = originalSettings;
+});
+
+const authorize = async (user: Record<string, unknown> | undefined) => {
+  let status = 200;
+  let passed = false;
+  const res = {
+    status: (code: number) => {
+      status = code;
+      return res;
+    },
+    json: () => res,
+  } as unknown as Response;
+
+  await authorizeRoles(Role.staff, Role.admin)({ user } as unknown as Request, res, () => {
+    passed = true;
+  });
+  return passed ? 200 : status;
+};
+
+test("token staff tanpa 2FA ditolak saat kebijakan wajib 2FA aktif", async () => {
+  assert.equal(await authorize({ id: "u1", role: Role.staff, mfa: false }), 403);
+  assert.equal(await authorize({ id: "u1", role: Role.staff, mfa: true }), 200);
+});
+
+test("API key milik staff tanpa 2FA tidak melewati kebijakan wajib 2FA", async () => {
+  assert.equal(await authorize({ id: "u1", role: Role.staff, api_key_id: "k1", mfa: false }), 403);
+  assert.equal(await authorize({ id: "u1", role: Role.staff, api_key_id: "k1", mfa: true }), 200);
+});
+
+test("role di luar daftar yang diizinkan ditolak, tanpa user → 401", async () => {
+  assert.equal(await authorize({ id: "u1", role: Role.customer, mfa: true }), 403);
+  assert.equal(await authorize({ id: "u1", role: Role.admin, mfa: true }), 200);
+  assert.equal(await authorize(undefined), 401);
+});
+
+test("isPrivileged hanya untuk staff & admin", () => {
+  assert.equal(isPrivileged(Role.staff), true);
+  assert.equal(isPrivileged(Role.admin), true);
+  assert.equal(isPrivileged(Role.customer), false);
+  assert.equal(isPrivileged(undefined), false);
+});
@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from "express";
+import { Role } from "@prisma/client";
+import { getTwoFactorRequiredRoles } from "../services/settingsService";
+
+// Dipasang setelah authenticateUser, contoh: authorizeRoles(Role.staff, Role.admin)
+export const authorizeRoles = (...allowedRoles: Role[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user;
+
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        message: "Akses ditolak. Token tidak ditemukan.",
+      });
+    }
+
+    if (!allowedRoles.includes(user.role)) {
+      return res.status(403).json({
+        success: false,
+        message: "Akses ditolak. Role kamu tidak memiliki izin untuk aksi ini.",
+      });
+    }
+
+    try {
+      // Role yang diwajibkan 2FA harus login lewat 2FA. API key: pemiliknya harus sudah mengaktifkan 2FA.
+      if (!user.mfa) {
+        const requiredRoles = await getTwoFactorRequiredRoles();
+        if (requiredRoles.includes(user.role)) {
+          return res.status(403).json({
+            success: false,
+            message: user.api_key_id
+              ? "Akses ditolak. Pemilik API key ini wajib mengaktifkan 2FA."
+              : "Akses ditolak. Role kamu wajib login dengan 2FA.",
+          });
+        }
+      }
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({
+        success: false,
+        message: "Terjadi kesalahan server.",
+      });
+    }
+
+    next();
+  };
+};
+
+// Staff & admin boleh mengubah katalog dan melihat statistik toko
+export const isPrivileged = (role: Role | undefined) =>
+  role === Role.staff || role === Role.admin;
@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Request, Response } from "express";
+import { requireScope } from "./scopeMiddleware";
+
+const check = (user: Record<string, unknown>) => {
+  let status = 200;
+  const res = {
+    status: (code: number) => {
+      status = code;
+      return res;
+    },
+    json: () => res,
+  } as unknown as Response;
+
+  requireScope("catalog:write")({ user } as unknown as Request, res, () => undefined);
+  return status;
+};
+
+test("API key tanpa scope yang diminta ditolak 403", () => {
+  assert.equal(check({ id: "u1", api_key_id: "k1", scopes: ["catalog:read"] }), 403);
+  assert.equal(check({ id: "u1", api_key_id: "k1", scopes: ["catalog:write"] }), 200);
+});
+
+test("login biasa (JWT) tidak dibatasi scope", () => {
+  assert.equal(check({ id: "u1", role: "staff" }), 200);
+});
@@ -0,0 +1,18 @@
+import { Request, Response, NextFunction } from "express";
+import { ApiKeyScope } from "../services/apiKeyService";
+
+// Hanya berlaku untuk request via API key. Login biasa (JWT) tidak dibatasi scope.
+export const requireScope = (scope: ApiKeyScope) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user;
+
+    if (user?.api_key_id && !user.scopes?.includes(scope)) {
+      return res.status(403).json({
+        success: false,
+        message: `Akses ditolak. API key tidak memiliki scope ${scope}.`,
+      });
+    }
+
+    next();
+  };
+};
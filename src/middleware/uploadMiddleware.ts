@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from "express";
+import multer from "multer";
+
+interface UploadOptions {
+  maxSizeMb: number;
+  // Daftar mimetype yang diterima, kosong = semua
+  allowedTypes?: string[];
+}
+
+// Upload satu file ke memori (req.file.buffer), error multer dikembalikan sebagai JSON 400
+export const uploadSingle = (field: string, { maxSizeMb, allowedTypes = [] }: UploadOptions) => {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxSizeMb * 1024 * 1024, files: 1 },
+    fileFilter: (_req, file, cb) => {
+      if (allowedTypes.length > 0 && !allowedTypes.includes(file.mimetype)) {
+        return cb(new multer.MulterError("LIMIT_UNEXPECTED_FILE", field));
+      }
+      cb(null, true);
+    },
+  }).single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (err: unknown) => {
+      if (!err) return next();
+
+      if (err instanceof multer.MulterError) {
+        const message =
+          err.code === "LIMIT_FILE_SIZE"
+            ? `Ukuran file maksimal ${maxSizeMb} MB.`
+            : err.code === "LIMIT_UNEXPECTED_FILE" && allowedTypes.length > 0
+            ? `File harus dikirim lewat field "${field}" dengan tipe: ${allowedTypes.join(", ")}.`
+            : `Upload gagal: ${err.message}`;
+        return res.status(400).json({ success: false, message });
+      }
+
+      next(err);
+    });
+  };
+};
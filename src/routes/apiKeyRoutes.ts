@@ -0,0 +1,21 @@
+import express from "express";
+import { Role } from "@prisma/client";
+import {
+  createApiKey,
+  getApiKeys,
+  updateApiKey,
+  revokeApiKey,
+} from "../controllers/apiKeyController";
+import { authorizeRoles } from "../middleware/roleMiddleware";
+
+const router = express.Router();
+
+// Hanya staff & admin yang boleh punya API key
+router.use(authorizeRoles(Role.staff, Role.admin));
+
+router.post("/", createApiKey);
+router.get("/", getApiKeys);
+router.patch("/:api_key_id", updateApiKey);
+router.delete("/:api_key_id", revokeApiKey);
+
+export default router;
@@ -1,9 +1,60 @@
 import express from "express";
-import { register, login, getCurrentUser } from '../controllers/authController';
+import { Role } from "@prisma/client";
+import {
+  register,
+  login,
+  getCurrentUser,
+  refreshToken,
+  logout,
+  logoutAll,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerification,
+  updateCurrentUser,
+  changePassword,
+  deleteCurrentUser,
+  updateUserRole,
+  unlockUser,
+  getMyRecommendations,
+} from '../controllers/authController';
+import {
+  enrollTwoFactor,
+  confirmTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+  verifyLoginTwoFactor,
+  getTwoFactorPolicy,
+  updateTwoFactorPolicy,
+} from "../controllers/twoFactorController";
+import { authenticateUser } from "../middleware/authMiddleware";
+import { authorizeRoles } from "../middleware/roleMiddleware";
+import { authIpRateLimit, authAccountRateLimit } from "../middleware/rateLimitMiddleware";
 
 const router = express.Router();
-router.post("/register", register);
-router.post("/login", login);
-router.get("/me", getCurrentUser);
+router.use(authIpRateLimit);
+router.post("/register", authAccountRateLimit, register);
+router.post("/login", authAccountRateLimit, login);
+router.post("/login/2fa", authAccountRateLimit, verifyLoginTwoFactor);
+router.post("/refresh", refreshToken);
+router.post("/logout", authenticateUser, logout);
+router.post("/logout-all", authenticateUser, logoutAll);
+router.post("/forgot-password", authAccountRateLimit, forgotPassword);
+router.post("/reset-password", resetPassword);
+router.get("/verify", verifyEmail);
+router.post("/verify/resend", authAccountRateLimit, resendVerification);
+router.get("/me", authenticateUser, getCurrentUser);
+router.patch("/me", authenticateUser, updateCurrentUser);
+router.post("/me/password", authenticateUser, changePassword);
+router.delete("/me", authenticateUser, deleteCurrentUser);
+router.get("/me/recommendations", authenticateUser, getMyRecommendations);
+router.patch("/users/:user_id/role", authenticateUser, authorizeRoles(Role.admin), updateUserRole);
+router.post("/users/:user_id/unlock", authenticateUser, authorizeRoles(Role.admin), unlockUser);
+router.post("/2fa/enroll", authenticateUser, enrollTwoFactor);
+router.post("/2fa/confirm", authenticateUser, confirmTwoFactor);
+router.post("/2fa/recovery-codes", authenticateUser, regenerateRecoveryCodes);
+router.post("/2fa/disable", authenticateUser, disableTwoFactor);
+router.get("/2fa/policy", authenticateUser, authorizeRoles(Role.admin), getTwoFactorPolicy);
+router.put("/2fa/policy", authenticateUser, authorizeRoles(Role.admin), updateTwoFactorPolicy);
 export default router;
 
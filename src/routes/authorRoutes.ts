@@ -0,0 +1,34 @@
+import express from "express";
+import {
+  createAuthor,
+  getAllAuthors,
+  getAuthorById,
+  getAuthorBooks,
+  updateAuthor,
+  deleteAuthor,
+} from "../controllers/authorController";
+import { Role } from "@prisma/client";
+import { authorizeRoles } from "../middleware/roleMiddleware";
+import { requireScope } from "../middleware/scopeMiddleware";
+
+const router = express.Router();
+
+// Create Author
+router.post("/", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:write"), createAuthor);
+
+// Get All Author (?search=)
+router.get("/", requireScope("catalog:read"), getAllAuthors);
+
+// Get Author Detail
+router.get("/:author_id", requireScope("catalog:read"), getAuthorById);
+
+// Get Books by Author
+router.get("/:author_id/books", requireScope("catalog:read"), getAuthorBooks);
+
+// Update Author
+router.patch("/:author_id", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:write"), updateAuthor);
+
+// Delete Author
+router.delete("/:author_id", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:write"), deleteAuthor);
+
+export default router;
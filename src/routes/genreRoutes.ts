@@ -2,27 +2,38 @@ import express from "express";
 import {
   createGenre,
   getAllGenres,
+  getGenreTree,
   getGenreById,
   updateGenre,
   deleteGenre,
 } from "../controllers/genreController";
+import { Role } from "@prisma/client";
+import { authorizeRoles } from "../middleware/roleMiddleware";
+import { requireScope } from "../middleware/scopeMiddleware";
+import { exportGenres } from "../controllers/exportController";
 
 const router = express.Router();
 
 // Create Genre
-router.post("/", createGenre);
+router.post("/", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:write"), createGenre);
 
 // Get All Genre
-router.get("/", getAllGenres);
+router.get("/", requireScope("catalog:read"), getAllGenres);
+
+// Export Genre (?format=csv|jsonl|xlsx)
+router.get("/export", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:read"), exportGenres);
+
+// Get Genre Tree (genre bersarang dengan children)
+router.get("/tree", requireScope("catalog:read"), getGenreTree);
 
 // Get Genre Detail
-router.get("/:genre_id", getGenreById);
+router.get("/:genre_id", requireScope("catalog:read"), getGenreById);
 
 // Update Genre
-router.patch("/:genre_id", updateGenre);
+router.patch("/:genre_id", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:write"), updateGenre);
 
 // Delete Genre
-router.delete("/:genre_id", deleteGenre);
+router.delete("/:genre_id", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:write"), deleteGenre);
 
 export default router;
 
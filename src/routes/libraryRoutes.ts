@@ -7,7 +7,26 @@ import {
   getBooksByGenre,
   updateBook,
   deleteBook,
+  importBooks,
+  getBookByIsbn,
+  uploadBookCover,
+  deleteBookCover,
+  getBookPriceHistory,
+  getLowStockBooks,
+  getBookRecommendations,
 } from "../controllers/libraryController";
+import { Role } from "@prisma/client";
+import { authorizeRoles } from "../middleware/roleMiddleware";
+import { requireScope } from "../middleware/scopeMiddleware";
+import { uploadSingle } from "../middleware/uploadMiddleware";
+import { exportBooks } from "../controllers/exportController";
+import { getBookReviews, createReview } from "../controllers/reviewController";
+import {
+  createStockMovement,
+  getStockMovements,
+  reconcileStockLedger,
+} from "../controllers/stockController";
+import { COVER_CONTENT_TYPES, COVER_MAX_SIZE_MB } from "../services/coverService";
 
 const router = express.Router();
 
@@ -18,26 +37,111 @@ router.get("/ping", (_req, res) => {
 
 // 📚 Create Book
 // POST /library/books
-router.post("/", createBook);
+router.post("/", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:write"), createBook);
+
+// 📦 Import Books (CSV / JSON, ?dry_run=true)
+// POST /library/books/import
+router.post(
+  "/import",
+  authorizeRoles(Role.staff, Role.admin),
+  requireScope("catalog:write"),
+  uploadSingle("file", { maxSizeMb: 10 }),
+  importBooks
+);
+
+// 📤 Export Books (?format=csv|jsonl|xlsx + filter getAllBooks)
+// GET /library/books/export
+router.get(
+  "/export",
+  authorizeRoles(Role.staff, Role.admin),
+  requireScope("catalog:read"),
+  exportBooks
+);
+
+// 🧮 Rekonsiliasi stok vs ledger (GET = laporan, POST = samakan stok dengan ledger)
+// GET|POST /library/books/stock/reconcile
+router.get("/stock/reconcile", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:read"), reconcileStockLedger);
+router.post("/stock/reconcile", authorizeRoles(Role.admin), requireScope("catalog:write"), reconcileStockLedger);
+
+// 🚨 Laporan stok menipis (?days=30)
+// GET /library/books/low-stock
+router.get("/low-stock", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:read"), getLowStockBooks);
 
 // 📖 Get All Books (dengan filter, pagination, dan sorting)
 // GET /library/books
-router.get("/", getAllBooks);
+router.get("/", requireScope("catalog:read"), getAllBooks);
+
+// 🔎 Get Book By ISBN
+// GET /library/books/isbn/:isbn
+router.get("/isbn/:isbn", requireScope("catalog:read"), getBookByIsbn);
 
 // 📘 Get Book Detail
 // GET /library/books/:book_id
-router.get("/:book_id", getBookDetail);
+router.get("/:book_id", requireScope("catalog:read"), getBookDetail);
 
 // 🎭 Get Book By Genre
-// GET /library/books/genre/:genre_id
-router.get("/genre/:genre_id", getBooksByGenre);
+// GET /library/books/genre/:genre_id?include_descendants=true
+router.get("/genre/:genre_id", requireScope("catalog:read"), getBooksByGenre);
 
 // ✏️ Update Book
 // PATCH /library/:book_id
-router.patch("/:book_id", updateBook);
+router.patch("/:book_id", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:write"), updateBook);
+
+// 💰 Riwayat harga
+// GET /library/:book_id/price-history
+router.get(
+  "/:book_id/price-history",
+  authorizeRoles(Role.staff, Role.admin),
+  requireScope("catalog:read"),
+  getBookPriceHistory
+);
+
+// 📦 Riwayat pergerakan stok
+// GET /library/:book_id/stock-movements
+router.get(
+  "/:book_id/stock-movements",
+  authorizeRoles(Role.staff, Role.admin),
+  requireScope("catalog:read"),
+  getStockMovements
+);
+
+// 📦 Posting restock / return / adjustment / write_off
+// POST /library/:book_id/stock-movements
+router.post(
+  "/:book_id/stock-movements",
+  authorizeRoles(Role.staff, Role.admin),
+  requireScope("catalog:write"),
+  createStockMovement
+);
+
+// 🤝 Rekomendasi "pembeli juga membeli"
+// GET /library/:book_id/recommendations
+router.get("/:book_id/recommendations", requireScope("catalog:read"), getBookRecommendations);
+
+// ⭐ Reviews per buku (?rating=&orderByRating=)
+// GET /library/:book_id/reviews
+router.get("/:book_id/reviews", requireScope("catalog:read"), getBookReviews);
+
+// ⭐ Tulis review (hanya pembeli buku)
+// POST /library/:book_id/reviews
+router.post("/:book_id/reviews", requireScope("catalog:write"), createReview);
+
+// 🖼️ Upload Cover (multipart, field "cover": JPEG / PNG / WebP)
+// PUT /library/:book_id/cover
+router.put(
+  "/:book_id/cover",
+  authorizeRoles(Role.staff, Role.admin),
+  requireScope("catalog:write"),
+  uploadSingle("cover", { maxSizeMb: COVER_MAX_SIZE_MB, allowedTypes: COVER_CONTENT_TYPES }),
+  uploadBookCover
+);
+
+// 🗑️ Delete Cover
+// DELETE /library/:book_id/cover
+router.delete("/:book_id/cover", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:write"), deleteBookCover);
 
 // ❌ Delete Book (soft delete)
 // DELETE /library/:book_id
-router.delete("/:book_id", deleteBook);
+router.delete("/:book_id", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:write"), deleteBook);
 
 export default router;
@@ -0,0 +1,25 @@
+import express from "express";
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+} from "../controllers/notificationController";
+import { Role } from "@prisma/client";
+import { authorizeRoles } from "../middleware/roleMiddleware";
+import { requireScope } from "../middleware/scopeMiddleware";
+
+const router = express.Router();
+
+// Notifikasi in-app hanya untuk staff & admin
+router.use(authorizeRoles(Role.staff, Role.admin));
+
+// Get Notifications (?unread=true&type=low_stock)
+router.get("/", requireScope("catalog:read"), getNotifications);
+
+// Tandai semua sudah dibaca
+router.post("/read-all", requireScope("catalog:read"), markAllNotificationsRead);
+
+// Tandai satu notifikasi sudah dibaca
+router.patch("/:notification_id/read", requireScope("catalog:read"), markNotificationRead);
+
+export default router;
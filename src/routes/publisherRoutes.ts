@@ -0,0 +1,34 @@
+import express from "express";
+import {
+  createPublisher,
+  getAllPublishers,
+  getPublisherById,
+  getPublisherBooks,
+  updatePublisher,
+  deletePublisher,
+} from "../controllers/publisherController";
+import { Role } from "@prisma/client";
+import { authorizeRoles } from "../middleware/roleMiddleware";
+import { requireScope } from "../middleware/scopeMiddleware";
+
+const router = express.Router();
+
+// Create Publisher
+router.post("/", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:write"), createPublisher);
+
+// Get All Publisher (?search=)
+router.get("/", requireScope("catalog:read"), getAllPublishers);
+
+// Get Publisher Detail
+router.get("/:publisher_id", requireScope("catalog:read"), getPublisherById);
+
+// Get Books by Publisher
+router.get("/:publisher_id/books", requireScope("catalog:read"), getPublisherBooks);
+
+// Update Publisher
+router.patch("/:publisher_id", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:write"), updatePublisher);
+
+// Delete Publisher
+router.delete("/:publisher_id", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:write"), deletePublisher);
+
+export default router;
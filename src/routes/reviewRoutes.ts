@@ -0,0 +1,31 @@
+import express from "express";
+import {
+  getReviewsForModeration,
+  updateReview,
+  deleteReview,
+  moderateReview,
+} from "../controllers/reviewController";
+import { Role } from "@prisma/client";
+import { authorizeRoles } from "../middleware/roleMiddleware";
+import { requireScope } from "../middleware/scopeMiddleware";
+
+const router = express.Router();
+
+// Antrian moderasi (?status=visible|hidden&book_id=)
+router.get("/", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:read"), getReviewsForModeration);
+
+// Update Review (penulis review)
+router.patch("/:review_id", requireScope("catalog:write"), updateReview);
+
+// Hide / tampilkan kembali review
+router.patch(
+  "/:review_id/moderation",
+  authorizeRoles(Role.staff, Role.admin),
+  requireScope("catalog:write"),
+  moderateReview
+);
+
+// Delete Review (penulis review atau staff)
+router.delete("/:review_id", requireScope("catalog:write"), deleteReview);
+
+export default router;
@@ -0,0 +1,30 @@
+import express from "express";
+import {
+  createSale,
+  getAllSales,
+  getSaleById,
+  updateSale,
+  deleteSale,
+} from "../controllers/saleController";
+import { Role } from "@prisma/client";
+import { authorizeRoles } from "../middleware/roleMiddleware";
+import { requireScope } from "../middleware/scopeMiddleware";
+
+const router = express.Router();
+
+// Create Sale (promo per buku atau per genre)
+router.post("/", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:write"), createSale);
+
+// Get All Sale (?status=active|upcoming|ended&book_id=&genre_id=)
+router.get("/", requireScope("catalog:read"), getAllSales);
+
+// Get Sale Detail
+router.get("/:sale_id", requireScope("catalog:read"), getSaleById);
+
+// Update Sale
+router.patch("/:sale_id", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:write"), updateSale);
+
+// Cancel Sale
+router.delete("/:sale_id", authorizeRoles(Role.staff, Role.admin), requireScope("catalog:write"), deleteSale);
+
+export default router;
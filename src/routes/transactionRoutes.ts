@@ -1,9 +1,14 @@
 import express from 'express';
+import { Role } from "@prisma/client";
 import {createTransaction, getAllTransactions, getTransactionById, getTransactionStats} from '../controllers/transactionController';
+import { authorizeRoles } from "../middleware/roleMiddleware";
+import { requireScope } from "../middleware/scopeMiddleware";
+import { exportTransactions } from "../controllers/exportController";
 
 const router = express.Router();
-router.post("/", createTransaction);
-router.get("/statistics", getTransactionStats);  // 🔹 harus sebelum /:id
-router.get("/:id", getTransactionById);     // 🔹 route dinamis di bawah
-router.get("/", getAllTransactions);        // 🔹 route default di paling bawah
+router.post("/", requireScope("orders:write"), createTransaction);
+router.get("/export", authorizeRoles(Role.staff, Role.admin), requireScope("orders:read"), exportTransactions);  // 🔹 harus sebelum /:id
+router.get("/statistics", authorizeRoles(Role.staff, Role.admin), requireScope("stats:read"), getTransactionStats);  // 🔹 harus sebelum /:id
+router.get("/:id", requireScope("orders:read"), getTransactionById);     // 🔹 route dinamis di bawah
+router.get("/", requireScope("orders:read"), getAllTransactions);        // 🔹 route default di paling bawah
 export default router;
\ No newline at end of file
@@ -0,0 +1,48 @@
+import express from "express";
+import {
+  getDeletedBooks,
+  getDeletedGenres,
+  restoreDeletedBook,
+  restoreDeletedGenre,
+  purgeDeletedBook,
+  purgeDeletedGenre,
+  purgeTrash,
+} from "../controllers/trashController";
+import { Role } from "@prisma/client";
+import { authorizeRoles } from "../middleware/roleMiddleware";
+import { requireScope } from "../middleware/scopeMiddleware";
+
+const router = express.Router();
+
+// Trash (buku & genre yang di-soft delete) hanya untuk admin
+router.use(authorizeRoles(Role.admin));
+
+// 🗑️ List buku di trash
+// GET /trash/books?search=&page=&limit=
+router.get("/books", requireScope("catalog:read"), getDeletedBooks);
+
+// 🗑️ List genre di trash
+// GET /trash/genres
+router.get("/genres", requireScope("catalog:read"), getDeletedGenres);
+
+// ♻️ Restore buku
+// POST /trash/books/:book_id/restore
+router.post("/books/:book_id/restore", requireScope("catalog:write"), restoreDeletedBook);
+
+// ♻️ Restore genre
+// POST /trash/genres/:genre_id/restore
+router.post("/genres/:genre_id/restore", requireScope("catalog:write"), restoreDeletedGenre);
+
+// ❌ Hapus permanen buku (tidak boleh jika tercatat di transaksi)
+// DELETE /trash/books/:book_id
+router.delete("/books/:book_id", requireScope("catalog:write"), purgeDeletedBook);
+
+// ❌ Hapus permanen genre (tidak boleh jika masih dipakai buku)
+// DELETE /trash/genres/:genre_id
+router.delete("/genres/:genre_id", requireScope("catalog:write"), purgeDeletedGenre);
+
+// 🧹 Jalankan retensi sekarang
+// POST /trash/purge?older_than_days=30
+router.post("/purge", requireScope("catalog:write"), purgeTrash);
+
+export default router;
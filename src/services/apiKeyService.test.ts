@@ -0,0 +1,48 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import prisma from "../config/prisma";
+import { findActiveApiKey, generateApiKey, isValidScopeList } from "./apiKeyService";
+
+const originalApiKeys = prisma.api_keys;
+
+afterEach(() => {
+  (prisma as any).api_keys = originalApiKeys;
+});
+
+test("key baru berformat lsk_ dan hanya hash-nya yang disimpan", () => {
+  const { key, prefix, keyHash } = generateApiKey();
+
+  assert.match(key, /^lsk_[0-9a-f]{48}$/);
+  assert.equal(prefix, key.slice(0, 12));
+  assert.notEqual(keyHash, key);
+  assert.notEqual(generateApiKey().key, key);
+});
+
+test("daftar scope harus berisi minimal satu scope yang dikenal", () => {
+  assert.equal(isValidScopeList(["catalog:read", "orders:write"]), true);
+  assert.equal(isValidScopeList([]), false);
+  assert.equal(isValidScopeList(["catalog:read", "admin:all"]), false);
+  assert.equal(isValidScopeList("catalog:read"), false);
+});
+
+test("key yang dicabut atau milik user terhapus tidak dikenali", async () => {
+  const { key, keyHash } = generateApiKey();
+  let row: Record<string, any> = {
+    id: "k1",
+    key_hash: keyHash,
+    revoked_at: null,
+    user: { deleted_at: null },
+  };
+  (prisma as any).api_keys = {
+    findUnique: async ({ where }: any) => (where.key_hash === row.key_hash ? row : null),
+  };
+
+  assert.equal((await findActiveApiKey(key))?.id, "k1");
+  assert.equal(await findActiveApiKey(`${key}x`), null);
+
+  row = { ...row, revoked_at: new Date() };
+  assert.equal(await findActiveApiKey(key), null);
+
+  row = { ...row, revoked_at: null, user: { deleted_at: new Date() } };
+  assert.equal(await findActiveApiKey(key), null);
+});
@@ -0,0 +1,44 @@
+import crypto from "crypto";
+import prisma from "../config/prisma";
+import { hashToken } from "../utils/token";
+
+export const API_KEY_SCOPES = [
+  "catalog:read",
+  "catalog:write",
+  "orders:read",
+  "orders:write",
+  "stats:read",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const isValidScopeList = (scopes: unknown): scopes is ApiKeyScope[] =>
+  Array.isArray(scopes) &&
+  scopes.length > 0 &&
+  scopes.every((scope) => API_KEY_SCOPES.includes(scope));
+
+// Format: lsk_<48 hex>. prefix disimpan apa adanya untuk ditampilkan di daftar key.
+export const generateApiKey = () => {
+  const key = `lsk_${crypto.randomBytes(24).toString("hex")}`;
+  return { key, prefix: key.slice(0, 12), keyHash: hashToken(key) };
+};
+
+// Cari key aktif beserta pemiliknya. null jika key tidak dikenal / dicabut.
+export const findActiveApiKey = async (key: string) => {
+  const apiKey = await prisma.api_keys.findUnique({
+    where: { key_hash: hashToken(key) },
+    include: { user: true },
+  });
+
+  if (!apiKey || apiKey.revoked_at || apiKey.user.deleted_at) {
+    return null;
+  }
+
+  return apiKey;
+};
+
+export const touchApiKey = (id: string) =>
+  prisma.api_keys.update({
+    where: { id },
+    data: { last_used_at: new Date() },
+  });
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import prisma from "../config/prisma";
+import { HttpError } from "../utils/httpError";
+import { importBooks, parseImportFile } from "./bookImportService";
+
+const original = {
+  genres: prisma.genres,
+  books: prisma.books,
+  authors: prisma.authors,
+  publishers: prisma.publishers,
+};
+
+const row = (overrides: Record<string, unknown> = {}) => ({
+  title: "Clean Code",
+  writer: "Robert C. Martin",
+  publisher: "Prentice Hall",
+  publication_year: 2008,
+  price: 150000,
+  stock_quantity: 10,
+  genre_id: "genre-aktif",
+  ...overrides,
+});
+
+let books: { id: string; title: string; isbn_13: string | null; deleted_at: Date | null }[] = [];
+
+beforeEach(() => {
+  books = [];
+  Object.assign(prisma as any, {
+    // findMany dengan filter deleted_at: null → hanya genre aktif yang dikembalikan
+    genres: {
+      findMany: async ({ where }: any) =>
+        [
+          { id: "genre-aktif", name: "Teknologi", deleted_at: null },
+          { id: "genre-trash", name: "Arsip", deleted_at: new Date() },
+        ].filter((genre) => where?.deleted_at !== null || genre.deleted_at === null),
+    },
+    books: { findMany: async () => books },
+    authors: { findUnique: async (): Promise<null> => null },
+    publishers: { findUnique: async (): Promise<null> => null },
+  });
+});
+
+afterEach(() => {
+  Object.assign(prisma, original);
+});
+
+test("genre yang sudah dihapus ditolak, sama seperti createBook", async () => {
+  const result = await importBooks(
+    [row({ genre_id: "genre-trash" }), row({ title: "Refactoring", genre: "Arsip", genre_id: "" })],
+    true
+  );
+
+  assert.deepEqual(
+    result.rows.map((r) => [r.status, r.error]),
+    [
+      ["failed", "Genre tidak ditemukan."],
+      ["failed", 'Genre "Arsip" tidak ditemukan.'],
+    ]
+  );
+});
+
+test("buku aktif diutamakan daripada salinan di trash dengan judul yang sama", async () => {
+  books = [
+    { id: "aktif", title: "Clean Code", isbn_13: null, deleted_at: null },
+    { id: "trash", title: "Clean Code", isbn_13: null, deleted_at: new Date() },
+  ];
+  const [result] = (await importBooks([row()], true)).rows;
+  assert.equal(result.status, "updated");
+  assert.equal(result.book_id, "aktif");
+
+  books.reverse();
+  const [reversed] = (await importBooks([row()], true)).rows;
+  assert.equal(reversed.status, "updated");
+  assert.equal(reversed.book_id, "aktif");
+});
+
+test("baris JSON yang bukan objek dilaporkan per baris, bukan 500", async () => {
+  const result = await importBooks([null, 42, ["Clean Code"], row()], true);
+
+  assert.deepEqual(
+    result.rows.map((r) => [r.row, r.status]),
+    [
+      [1, "failed"],
+      [2, "failed"],
+      [3, "failed"],
+      [4, "created"],
+    ]
+  );
+  assert.equal(result.rows[0].error, "Baris harus berupa objek.");
+  assert.equal(result.summary.failed, 3);
+});
+
+test("JSON boleh array atau { books: [...] }, selain itu 400", () => {
+  const rows = [row()];
+  assert.deepEqual(parseImportFile(Buffer.from(JSON.stringify(rows)), "json"), rows);
+  assert.deepEqual(parseImportFile(Buffer.from(JSON.stringify({ books: rows })), "json"), rows);
+
+  for (const body of ["{", '{"data": []}']) {
+    assert.throws(
+      () => parseImportFile(Buffer.from(body), "json"),
+      (err) => err instanceof HttpError && err.status === 400
+    );
+  }
+});
+
+test("judul yang muncul dua kali di file hanya diproses sekali", async () => {
+  const result = await importBooks([row(), row({ price: 99000 })], true);
+
+  assert.deepEqual(
+    result.rows.map((r) => [r.status, r.error]),
+    [
+      ["created", undefined],
+      ["failed", "Judul muncul lebih dari sekali di file."],
+    ]
+  );
+});
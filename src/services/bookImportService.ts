@@ -0,0 +1,237 @@
+import { parse } from "csv-parse/sync";
+import { StockMovementType } from "@prisma/client";
+import prisma from "../config/prisma";
+import { HttpError } from "../utils/httpError";
+import { validateBookInput } from "../utils/bookValidation";
+import { parseIsbn } from "../utils/isbn";
+import { resolveAuthors, resolvePublisher } from "./contributorService";
+import { priceHistoryEntry } from "./pricingService";
+import { setStockLevel, initialStockEntry } from "./stockService";
+
+export type ImportFormat = "csv" | "json";
+
+type ImportStatus = "created" | "restored" | "updated" | "failed";
+
+interface ImportRowResult {
+  row: number;
+  title: string | null;
+  status: ImportStatus;
+  book_id?: string;
+  error?: string;
+}
+
+export const detectImportFormat = (
+  file: Express.Multer.File,
+  requested?: string
+): ImportFormat | null => {
+  const format = requested || file.originalname.split(".").pop()?.toLowerCase();
+  if (format === "csv" || file.mimetype === "text/csv") return "csv";
+  if (format === "json" || file.mimetype === "application/json") return "json";
+  return null;
+};
+
+// CSV: baris pertama = header. JSON: array objek atau { books: [...] }.
+export const parseImportFile = (buffer: Buffer, format: ImportFormat): Record<string, any>[] => {
+  try {
+    if (format === "csv") {
+      return parse(buffer, {
+        columns: true,
+        skip_empty_lines: true,
+        trim: true,
+        bom: true,
+      });
+    }
+
+    const parsed = JSON.parse(buffer.toString("utf8"));
+    const rows = Array.isArray(parsed) ? parsed : parsed?.books;
+    if (!Array.isArray(rows)) {
+      throw new Error("JSON harus berupa array atau objek dengan field books.");
+    }
+    return rows;
+  } catch (err: any) {
+    throw new HttpError(400, `File ${format.toUpperCase()} tidak valid: ${err.message}`);
+  }
+};
+
+// Baris JSON bisa berisi apa saja (null, angka, array); hanya objek yang diproses
+const isRowObject = (row: unknown): row is Record<string, any> =>
+  typeof row === "object" && row !== null && !Array.isArray(row);
+
+// Import massal: validasi sama dengan createBook, upsert berdasarkan ISBN (atau judul jika tanpa ISBN).
+// dryRun = hanya laporan, tidak ada yang ditulis ke database. userId dicatat di riwayat harga.
+export const importBooks = async (
+  rows: unknown[],
+  dryRun: boolean,
+  userId: string | null = null
+) => {
+  // Sama seperti createBook: hanya genre aktif yang boleh dipakai
+  const genres = await prisma.genres.findMany({ where: { deleted_at: null } });
+  const genreIds = new Set(genres.map((genre) => genre.id));
+  const genresByName = new Map(genres.map((genre) => [genre.name.trim().toLowerCase(), genre.id]));
+
+  // Buku yang sudah ada dicocokkan lewat ISBN, atau judul untuk buku tanpa ISBN
+  const objectRows = rows.filter(isRowObject);
+  const titles = objectRows
+    .map((row) => (typeof row.title === "string" ? row.title.trim() : null))
+    .filter(Boolean);
+  const isbns = objectRows
+    .map((row) => (row.isbn ? parseIsbn(String(row.isbn))?.isbn_13 : null))
+    .filter(Boolean);
+  const existingBooks = await prisma.books.findMany({
+    where: {
+      OR: [{ isbn_13: { in: isbns } }, { title: { in: titles }, isbn_13: null }],
+    },
+  });
+  // Satu judul bisa punya buku aktif dan beberapa salinan di trash: buku aktif selalu diutamakan
+  const existingByKey = new Map<string, (typeof existingBooks)[number]>();
+  for (const book of existingBooks) {
+    const key = book.isbn_13 ?? `title:${book.title}`;
+    const current = existingByKey.get(key);
+    if (!current || (current.deleted_at && !book.deleted_at)) existingByKey.set(key, book);
+  }
+
+  const seenKeys = new Set<string>();
+  const results: ImportRowResult[] = [];
+
+  for (const [index, raw] of rows.entries()) {
+    const rowNumber = index + 1;
+    if (!isRowObject(raw)) {
+      results.push({
+        row: rowNumber,
+        title: null,
+        status: "failed",
+        error: "Baris harus berupa objek.",
+      });
+      continue;
+    }
+    const title = typeof raw.title === "string" ? raw.title.trim() : null;
+    const fail = (error: string) =>
+      results.push({ row: rowNumber, title, status: "failed", error });
+
+    // Baris boleh menyebut nama genre sebagai ganti genre_id
+    let genreId: string | undefined = raw.genre_id || undefined;
+    if (!genreId && raw.genre) {
+      genreId = genresByName.get(String(raw.genre).trim().toLowerCase());
+      if (!genreId) {
+        fail(`Genre "${raw.genre}" tidak ditemukan.`);
+        continue;
+      }
+    }
+
+    const validation = validateBookInput({ ...raw, title, genre_id: genreId });
+    if (validation.error) {
+      fail(validation.error);
+      continue;
+    }
+    const input = validation.data;
+
+    // genre_ids (array, atau dipisah koma di CSV) = genre tambahan selain genre utama
+    if (validation.genre_ids.some((id) => !genreIds.has(id))) {
+      fail("Genre tidak ditemukan.");
+      continue;
+    }
+
+    const key = input.isbn_13 ?? `title:${input.title}`;
+    if (seenKeys.has(key)) {
+      fail(
+        input.isbn_13
+          ? "ISBN muncul lebih dari sekali di file."
+          : "Judul muncul lebih dari sekali di file."
+      );
+      continue;
+    }
+    seenKeys.add(key);
+
+    // Penulis & penerbit di-resolve ke entitas (dry run: hanya dicek, tidak dibuat)
+    let authors: Awaited<ReturnType<typeof resolveAuthors>>;
+    let publisher: Awaited<ReturnType<typeof resolvePublisher>>;
+    try {
+      authors = await resolveAuthors(validation.contributors, dryRun);
+      publisher = await resolvePublisher(validation.contributors, dryRun);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        fail(err.message);
+        continue;
+      }
+      throw err;
+    }
+
+    const existing = existingByKey.get(key);
+    const status: ImportStatus = !existing
+      ? "created"
+      : existing.deleted_at
+      ? "restored"
+      : "updated";
+
+    if (dryRun) {
+      results.push({ row: rowNumber, title, status, book_id: existing?.id });
+      continue;
+    }
+
+    try {
+      const now = new Date();
+      // Sama seperti createBook: buku yang pernah di-soft delete dipulihkan
+      // Stok tidak ditulis langsung: selisihnya dicatat di ledger stok
+      const { stock_quantity, ...fields } = { ...input, ...publisher, writer: authors.writer };
+      const genreLinks = validation.genre_ids.map((genre_id) => ({ genre_id }));
+      const book = existing
+        ? await prisma.$transaction(async (tx) => {
+            await setStockLevel(
+              tx,
+              existing.id,
+              stock_quantity,
+              StockMovementType.adjustment,
+              "Import buku",
+              userId
+            );
+            return tx.books.update({
+              where: { id: existing.id },
+              data: {
+                ...fields,
+                authors: { deleteMany: {}, create: authors.credits },
+                genres: { deleteMany: {}, create: genreLinks },
+                price_history: priceHistoryEntry(existing.price, input.price, userId),
+                deleted_at: null,
+                updated_at: now,
+              },
+            });
+          })
+        : await prisma.books.create({
+            data: {
+              ...fields,
+              stock_quantity,
+              authors: { create: authors.credits },
+              genres: { create: genreLinks },
+              price_history: priceHistoryEntry(null, input.price, userId),
+              stock_movements: initialStockEntry(stock_quantity, userId),
+              created_at: now,
+              updated_at: now,
+            },
+          });
+
+      results.push({ row: rowNumber, title, status, book_id: book.id });
+    } catch (err: any) {
+      console.error(err);
+      fail(
+        err?.code === "P2002"
+          ? "Data melanggar unique constraint."
+          : "Gagal menyimpan baris ini."
+      );
+    }
+  }
+
+  const count = (status: ImportStatus) =>
+    results.filter((result) => result.status === status).length;
+
+  return {
+    dry_run: dryRun,
+    summary: {
+      total: rows.length,
+      created: count("created"),
+      restored: count("restored"),
+      updated: count("updated"),
+      failed: count("failed"),
+    },
+    rows: results,
+  };
+};
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import prisma from "../config/prisma";
+import { HttpError } from "../utils/httpError";
+import { decodeCursor } from "../utils/pagination";
+import { listBooks } from "./bookListService";
+
+const original = {
+  books: prisma.books,
+  book_genres: prisma.book_genres,
+  genres: prisma.genres,
+  sales: prisma.sales,
+};
+
+type Call = { method: string; args: any };
+let calls: Call[] = [];
+let bookRows: Record<string, any>[] = [];
+
+beforeEach(() => {
+  calls = [];
+  bookRows = [];
+  const record =
+    (method: string, result: (args: any) => unknown) =>
+    async (args: any) => {
+      calls.push({ method, args });
+      return result(args);
+    };
+
+  Object.assign(prisma as any, {
+    books: {
+      count: record("books.count", () => 0),
+      findMany: record("books.findMany", () => bookRows),
+      groupBy: record("books.groupBy", () => []),
+    },
+    book_genres: {
+      groupBy: record("book_genres.groupBy", () => [{ genre_id: "g1", _count: { _all: 3 } }]),
+      findMany: record("book_genres.findMany", () => []),
+    },
+    genres: { findMany: record("genres.findMany", () => [{ id: "g1", name: "Fiksi" }]) },
+    sales: { findMany: record("sales.findMany", () => []) },
+  });
+});
+
+afterEach(() => {
+  Object.assign(prisma as any, original);
+});
+
+// Kunci filter (price, genres, ...) yang dipakai di where hasil combine()
+const filterKeys = (where: { AND: Record<string, unknown>[] }) =>
+  where.AND.slice(1).flatMap((filter) => Object.keys(filter));
+
+test("facet tiap dimensi dihitung tanpa filter dimensinya sendiri", async () => {
+  const { facets } = await listBooks({ genre_ids: "g1", min_price: "100000" });
+
+  const genreGroup = calls.find((call) => call.method === "book_genres.groupBy")!;
+  assert.deepEqual(filterKeys(genreGroup.args.where.book), ["price"]);
+
+  // Hitungan bucket harga: { AND: [priceWhere, bucket] }
+  const priceCount = calls.find(
+    (call) =>
+      call.method === "books.count" && call.args.where.AND[0].AND && call.args.where.AND[1].price
+  )!;
+  assert.deepEqual(filterKeys(priceCount.args.where.AND[0]), ["genres"]);
+
+  assert.deepEqual(facets.genres, [{ genre_id: "g1", name: "Fiksi", count: 3 }]);
+  assert.equal(facets.price_ranges.length, 5);
+  assert.equal(facets.price_ranges[4].max, null);
+});
+
+test("listing utama memakai semua filter sekaligus", async () => {
+  await listBooks({ genre_ids: "g1", min_price: "100000", in_stock: "true", min_rating: "4" });
+
+  const listing = calls.find((call) => call.method === "books.findMany")!;
+  assert.deepEqual(filterKeys(listing.args.where).sort(), [
+    "genres",
+    "price",
+    "rating_avg",
+    "rating_count",
+    "stock_quantity",
+  ]);
+});
+
+test("mode cursor: ambil limit + 1 untuk tahu halaman berikutnya, cursor after jadi keyset", async () => {
+  const at = new Date("2025-01-01T00:00:00.000Z");
+  bookRows = ["b3", "b2", "b1"].map((id) => ({ id, genre_id: "g1", created_at: at }));
+
+  const first = await listBooks({ pagination: "cursor", limit: "2" });
+  const pageInfo = first.pagination as { next_cursor: string | null; prev_cursor: string | null };
+  const listing = calls.find((call) => call.method === "books.findMany")!;
+  assert.equal(listing.args.take, 3);
+  assert.deepEqual(
+    first.items.map((book) => book.id),
+    ["b3", "b2"]
+  );
+  assert.equal(pageInfo.prev_cursor, null);
+
+  const next = pageInfo.next_cursor as string;
+  assert.deepEqual(decodeCursor(next, "created_at", "desc", "date"), {
+    f: "created_at",
+    d: "desc",
+    v: at.toISOString(),
+    id: "b2",
+  });
+
+  calls = [];
+  await listBooks({ pagination: "cursor", limit: "2", after: next });
+  const page = calls.find((call) => call.method === "books.findMany")!;
+  assert.deepEqual(page.args.where.AND[1], {
+    OR: [{ created_at: { lt: at } }, { created_at: at, id: { lt: "b2" } }],
+  });
+});
+
+test("arah urutan tidak valid ditolak 400", async () => {
+  await assert.rejects(
+    listBooks({ orderByTitle: "naik" }),
+    (err) => err instanceof HttpError && err.status === 400
+  );
+});
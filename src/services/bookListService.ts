@@ -0,0 +1,468 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import {
+  MAX_FULLTEXT_MATCHES,
+  buildTsQuery,
+  findFullTextMatches,
+  getHighlights,
+} from "./bookSearchService";
+import { withCover } from "./coverService";
+import { resolveEffectivePrices } from "./pricingService";
+import {
+  parseLimit,
+  decodeCursor,
+  encodeCursor,
+  keysetWhere,
+  parseDirection,
+  CursorValueType,
+} from "../utils/pagination";
+
+// Relasi yang ikut di setiap response buku (listing, detail, create / update)
+export const bookInclude = {
+  genre: { select: { id: true, name: true } },
+  genres: {
+    orderBy: { genre: { name: "asc" } },
+    select: { genre: { select: { id: true, name: true } } },
+  },
+  publisher_ref: { select: { id: true, name: true } },
+  authors: {
+    orderBy: { position: "asc" },
+    select: { role: true, position: true, author: { select: { id: true, name: true } } },
+  },
+} satisfies Prisma.booksInclude;
+
+// Batas bawah tiap bucket harga untuk facet (harga dalam rupiah)
+const PRICE_BUCKETS = [0, 50000, 100000, 200000, 500000];
+
+type FilterDimension =
+  | "search"
+  | "price"
+  | "year"
+  | "genre"
+  | "publisher"
+  | "writer"
+  | "stock"
+  | "rating";
+
+type BookFilters = Partial<Record<FilterDimension, Prisma.booksWhereInput>>;
+
+const toNumber = (value: string | undefined) =>
+  value === undefined || value === "" || Number.isNaN(Number(value)) ? undefined : Number(value);
+
+const toList = (value: string | undefined) =>
+  value ? value.split(",").map((item) => item.trim()).filter(Boolean) : [];
+
+// Filter dipisah per dimensi supaya facet bisa dihitung tanpa filter dimensinya sendiri
+const buildFilters = (query: Record<string, string>): BookFilters => {
+  const filters: BookFilters = {};
+
+  const minPrice = toNumber(query.min_price);
+  const maxPrice = toNumber(query.max_price);
+  if (minPrice !== undefined || maxPrice !== undefined) {
+    filters.price = { price: { gte: minPrice, lte: maxPrice } };
+  }
+
+  const minYear = toNumber(query.min_year);
+  const maxYear = toNumber(query.max_year);
+  if (minYear !== undefined || maxYear !== undefined) {
+    filters.year = { publication_year: { gte: minYear, lte: maxYear } };
+  }
+
+  const genreIds = toList(query.genre_ids);
+  if (genreIds.length > 0) {
+    // Cocok jika salah satu genre buku (bukan hanya genre utama) ada di daftar
+    filters.genre = { genres: { some: { genre_id: { in: genreIds } } } };
+  }
+
+  if (query.publisher_id) {
+    filters.publisher = { publisher_id: query.publisher_id };
+  } else if (query.publisher) {
+    filters.publisher = { publisher: { contains: query.publisher, mode: "insensitive" } };
+  }
+
+  if (query.author_id) {
+    filters.writer = { authors: { some: { author_id: query.author_id } } };
+  } else if (query.writer) {
+    filters.writer = { writer: { contains: query.writer, mode: "insensitive" } };
+  }
+
+  if (query.in_stock === "true") {
+    filters.stock = { stock_quantity: { gt: 0 } };
+  }
+
+  // min_rating=4 → rata-rata rating minimal 4 (buku tanpa review tidak ikut)
+  const minRating = toNumber(query.min_rating);
+  if (minRating !== undefined) {
+    filters.rating = { rating_avg: { gte: minRating }, rating_count: { gt: 0 } };
+  }
+
+  return filters;
+};
+
+const combine = (
+  base: Prisma.booksWhereInput,
+  filters: BookFilters,
+  exclude?: FilterDimension
+): Prisma.booksWhereInput => ({
+  AND: [
+    base,
+    ...Object.entries(filters)
+      .filter(([dimension]) => dimension !== exclude)
+      .map(([, where]) => where),
+  ],
+});
+
+const bucketLabel = (index: number) => {
+  const min = PRICE_BUCKETS[index];
+  const max = PRICE_BUCKETS[index + 1];
+  return max === undefined ? `${min}+` : `${min}-${max}`;
+};
+
+// Jumlah buku per genre (buku multi-genre dihitung di setiap genrenya), bucket harga, penerbit, dan ketersediaan stok
+const getFacets = async (base: Prisma.booksWhereInput, filters: BookFilters) => {
+  const genreWhere = combine(base, filters, "genre");
+  const priceWhere = combine(base, filters, "price");
+  const publisherWhere = combine(base, filters, "publisher");
+  const stockWhere = combine(base, filters, "stock");
+
+  const [genreGroups, priceCounts, publisherGroups, inStock, outOfStock] = await Promise.all([
+    prisma.book_genres.groupBy({
+      by: ["genre_id"],
+      where: { book: genreWhere },
+      _count: { _all: true },
+    }),
+    Promise.all(
+      PRICE_BUCKETS.map((min, index) =>
+        prisma.books.count({
+          where: {
+            AND: [priceWhere, { price: { gte: min, lt: PRICE_BUCKETS[index + 1] } }],
+          },
+        })
+      )
+    ),
+    prisma.books.groupBy({
+      by: ["publisher"],
+      where: publisherWhere,
+      _count: { _all: true },
+      orderBy: { _count: { publisher: "desc" } },
+      take: 20,
+    }),
+    prisma.books.count({ where: { AND: [stockWhere, { stock_quantity: { gt: 0 } }] } }),
+    prisma.books.count({ where: { AND: [stockWhere, { stock_quantity: { lte: 0 } }] } }),
+  ]);
+
+  const genres = await prisma.genres.findMany({
+    where: { id: { in: genreGroups.map((group) => group.genre_id) } },
+    select: { id: true, name: true },
+  });
+  const genreNames = new Map(genres.map((genre) => [genre.id, genre.name]));
+
+  return {
+    genres: genreGroups
+      .map((group) => ({
+        genre_id: group.genre_id,
+        name: genreNames.get(group.genre_id),
+        count: group._count._all,
+      }))
+      .sort((a, b) => b.count - a.count),
+    price_ranges: PRICE_BUCKETS.map((min, index) => ({
+      label: bucketLabel(index),
+      min,
+      max: PRICE_BUCKETS[index + 1] ?? null,
+      count: priceCounts[index],
+    })),
+    publishers: publisherGroups.map((group) => ({
+      publisher: group.publisher,
+      count: group._count._all,
+    })),
+    availability: { in_stock: inStock, out_of_stock: outOfStock },
+  };
+};
+
+type SortField =
+  | "title"
+  | "publication_year"
+  | "price"
+  | "stock_quantity"
+  | "created_at"
+  | "rating_avg";
+
+interface Sort {
+  field: SortField;
+  direction: "asc" | "desc";
+}
+
+// Urutan prioritas jika lebih dari satu orderBy* dikirim.
+// orderByCreatedAt=desc → buku terbaru masuk katalog
+const SORT_PARAMS: [string, SortField][] = [
+  ["orderByTitle", "title"],
+  ["orderByPublishDate", "publication_year"],
+  ["orderByPrice", "price"],
+  ["orderByStock", "stock_quantity"],
+  ["orderByCreatedAt", "created_at"],
+  ["orderByRating", "rating_avg"],
+];
+
+// Arah selain asc/desc → 400 (sama seperti daftar transaksi)
+const getSort = (query: Record<string, string>): Sort | null => {
+  const directions = SORT_PARAMS.map(
+    ([param, field]) => [field, parseDirection(query[param], param)] as const
+  );
+  const match = directions.find(([, direction]) => direction);
+  return match ? { field: match[0], direction: match[1]! } : null;
+};
+
+const sortValueTypes: Record<SortField, CursorValueType> = {
+  title: "string",
+  publication_year: "number",
+  price: "number",
+  stock_quantity: "number",
+  created_at: "date",
+  rating_avg: "number",
+};
+
+const cursorValue = (value: unknown) => (value instanceof Date ? value.toISOString() : value);
+
+// Halaman berbasis cursor langsung di database (keyset pagination)
+const paginateByCursor = async (
+  where: Prisma.booksWhereInput,
+  sort: Sort,
+  limit: number,
+  after?: string,
+  before?: string
+) => {
+  const { field, direction } = sort;
+  const backwards = !!before && !after;
+  const cursor = after || before;
+
+  let keyset: Prisma.booksWhereInput = {};
+  if (cursor) {
+    const payload = decodeCursor(cursor, field, direction, sortValueTypes[field]);
+    const value = field === "created_at" ? new Date(payload.v) : payload.v;
+    keyset = keysetWhere(field, direction, value, payload.id, backwards);
+  }
+
+  // Mundur = ambil dengan urutan terbalik lalu dibalik lagi
+  const queryDirection = backwards ? (direction === "asc" ? "desc" : "asc") : direction;
+  const rows = await prisma.books.findMany({
+    where: { AND: [where, keyset] },
+    take: limit + 1,
+    include: bookInclude,
+    orderBy: [{ [field]: queryDirection }, { id: queryDirection }],
+  });
+
+  const hasMore = rows.length > limit;
+  const books = rows.slice(0, limit);
+  if (backwards) books.reverse();
+
+  const toCursor = (book: (typeof books)[number]) =>
+    encodeCursor({ f: field, d: direction, v: cursorValue(book[field]) as string | number, id: book.id });
+
+  const first = books[0];
+  const last = books[books.length - 1];
+
+  return {
+    books,
+    pageInfo: {
+      next_cursor: last && (backwards || hasMore) ? toCursor(last) : null,
+      prev_cursor: first && (backwards ? hasMore : !!cursor) ? toCursor(first) : null,
+    },
+  };
+};
+
+// Versi in-memory untuk urutan relevansi full-text (rank tidak ada di kolom tabel)
+const paginateByRelevance = (
+  ids: string[],
+  ranks: Map<string, number>,
+  limit: number,
+  after?: string,
+  before?: string
+) => {
+  const compare = (a: { v: number; id: string }, b: { v: number; id: string }) =>
+    b.v - a.v || a.id.localeCompare(b.id);
+  const entries = ids.map((id) => ({ v: ranks.get(id), id })).sort(compare);
+
+  let start = 0;
+  let end = entries.length;
+  if (after) {
+    const payload = decodeCursor(after, "relevance", "desc", "number") as { v: number; id: string };
+    start = entries.findIndex((entry) => compare(entry, payload) > 0);
+    if (start === -1) start = entries.length;
+    end = start + limit;
+  } else if (before) {
+    const payload = decodeCursor(before, "relevance", "desc", "number") as { v: number; id: string };
+    end = entries.findIndex((entry) => compare(entry, payload) >= 0);
+    if (end === -1) end = entries.length;
+    start = Math.max(0, end - limit);
+  } else {
+    end = limit;
+  }
+
+  const window = entries.slice(start, end);
+  const toCursor = (entry: { v: number; id: string }) =>
+    encodeCursor({ f: "relevance", d: "desc", v: entry.v, id: entry.id });
+
+  return {
+    pageIds: window.map((entry) => entry.id),
+    pageInfo: {
+      next_cursor: window.length > 0 && end < entries.length ? toCursor(window[window.length - 1]) : null,
+      prev_cursor: window.length > 0 && start > 0 ? toCursor(window[0]) : null,
+    },
+  };
+};
+
+// Terjemahkan query string (search + filter) menjadi where Prisma
+const resolveBookQuery = async (
+  query: Record<string, string>,
+  scope: Prisma.booksWhereInput
+) => {
+  const { search, search_mode = "contains" } = query;
+  const base: Prisma.booksWhereInput = { deleted_at: null, ...scope };
+  const filters = buildFilters(query);
+
+  let tsQuery: string | null = null;
+  let ranks: Map<string, number> | null = null;
+
+  if (search && search_mode === "fulltext") {
+    tsQuery = buildTsQuery(search);
+    ranks = tsQuery ? await findFullTextMatches(tsQuery) : new Map<string, number>();
+    filters.search = { id: { in: [...ranks.keys()] } };
+  } else if (search) {
+    filters.search = {
+      OR: [
+        { title: { contains: search, mode: "insensitive" } },
+        { writer: { contains: search, mode: "insensitive" } },
+        { publisher: { contains: search, mode: "insensitive" } },
+      ],
+    };
+  }
+
+  return { base, filters, where: combine(base, filters), tsQuery, ranks };
+};
+
+// Iterasi seluruh buku yang cocok dengan filter getAllBooks, per batch (untuk export)
+export async function* iterateBooks(query: Record<string, string>, batchSize = 500) {
+  const { where } = await resolveBookQuery(query, {});
+  const sort = getSort(query) ?? { field: "created_at", direction: "desc" };
+  let cursor: string | undefined;
+
+  while (true) {
+    const batch = await prisma.books.findMany({
+      where,
+      take: batchSize,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      include: bookInclude,
+      orderBy: [{ [sort.field]: sort.direction }, { id: sort.direction }],
+    });
+
+    if (batch.length === 0) return;
+    yield batch;
+    if (batch.length < batchSize) return;
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+// Query listing buku yang dipakai bersama getAllBooks & getBooksByGenre.
+// scope = filter tambahan dari route (mis. genre tertentu).
+// Mode offset (page & limit) untuk admin UI, mode cursor (after / before) untuk storefront.
+export const listBooks = async (
+  query: Record<string, string>,
+  scope: Prisma.booksWhereInput = {}
+) => {
+  const { page = "1", after, before } = query;
+
+  const limitNum = parseLimit(query.limit);
+  const pageNum = Math.max(1, Number(page) || 1);
+  const skip = (pageNum - 1) * limitNum;
+  const cursorMode = query.pagination === "cursor" || !!after || !!before;
+
+  const { base, filters, where, tsQuery, ranks } = await resolveBookQuery(query, scope);
+
+  // Tanpa urutan eksplisit: relevansi untuk full-text, terbaru untuk mode biasa
+  const sort: Sort | null =
+    getSort(query) ?? (ranks ? null : { field: "created_at", direction: "desc" });
+
+  let books;
+  let pagination;
+
+  if (!sort) {
+    const matched = await prisma.books.findMany({ where, select: { id: true } });
+    const ids = matched.map((book) => book.id);
+
+    let pageIds: string[];
+    if (cursorMode) {
+      const result = paginateByRelevance(ids, ranks, limitNum, after, before);
+      pageIds = result.pageIds;
+      pagination = { limit: limitNum, ...result.pageInfo };
+    } else {
+      pageIds = ids
+        .sort((a, b) => ranks.get(b) - ranks.get(a) || a.localeCompare(b))
+        .slice(skip, skip + limitNum);
+      pagination = {
+        page: pageNum,
+        limit: limitNum,
+        total: ids.length,
+        total_pages: Math.ceil(ids.length / limitNum),
+      };
+    }
+
+    books = (
+      await prisma.books.findMany({ where: { id: { in: pageIds } }, include: bookInclude })
+    ).sort((a, b) => pageIds.indexOf(a.id) - pageIds.indexOf(b.id));
+  } else if (cursorMode) {
+    const result = await paginateByCursor(where, sort, limitNum, after, before);
+    books = result.books;
+    pagination = { limit: limitNum, ...result.pageInfo };
+  } else {
+    const [total, rows] = await Promise.all([
+      prisma.books.count({ where }),
+      prisma.books.findMany({
+        where,
+        skip,
+        take: limitNum,
+        include: bookInclude,
+        orderBy: [{ [sort.field]: sort.direction }, { id: sort.direction }],
+      }),
+    ]);
+    books = rows;
+    pagination = {
+      page: pageNum,
+      limit: limitNum,
+      total,
+      total_pages: Math.ceil(total / limitNum),
+    };
+  }
+
+  // Filter & urutan harga memakai harga normal, effective_price hanya ditambahkan di response
+  const [highlights, facets, prices] = await Promise.all([
+    tsQuery
+      ? getHighlights(
+          tsQuery,
+          books.map((book) => book.id)
+        )
+      : null,
+    getFacets(base, filters),
+    resolveEffectivePrices(books),
+  ]);
+
+  return {
+    items: ranks
+      ? books.map((book) => ({
+          ...withCover(book),
+          ...prices.get(book.id),
+          relevance: ranks.get(book.id),
+          highlights: highlights?.get(book.id),
+        }))
+      : books.map((book) => ({ ...withCover(book), ...prices.get(book.id) })),
+    // Full-text hanya meranking MAX_FULLTEXT_MATCHES hasil teratas. Jika batas tercapai,
+    // total / total_pages adalah jumlah hasil yang diranking, bukan seluruh buku yang cocok.
+    pagination: ranks
+      ? {
+          ...pagination,
+          match_limit: MAX_FULLTEXT_MATCHES,
+          match_limit_reached: ranks.size >= MAX_FULLTEXT_MATCHES,
+        }
+      : pagination,
+    facets,
+  };
+};
@@ -0,0 +1,40 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import { buildTsQuery, getHighlights } from "./bookSearchService";
+
+const originalQueryRaw = prisma.$queryRaw;
+
+afterEach(() => {
+  (prisma as any).$queryRaw = originalQueryRaw;
+});
+
+test("kata pencarian menjadi tsquery prefix yang digabung dengan &", () => {
+  assert.equal(buildTsQuery("Clean Archi"), "clean:* & archi:*");
+  assert.equal(buildTsQuery("café  déjà-vu"), "café:* & déjà:* & vu:*");
+});
+
+test("karakter operator tsquery dibuang supaya query tidak bisa rusak", () => {
+  assert.equal(buildTsQuery("clean & (code) | !'x':*"), "clean:* & code:* & x:*");
+  assert.equal(buildTsQuery("  &|!  "), null);
+});
+
+test("kolom di-escape HTML sebelum ts_headline", async () => {
+  let sql = "";
+  (prisma as any).$queryRaw = async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    sql = Prisma.sql(strings, ...values).text;
+    return [] as unknown[];
+  };
+
+  await getHighlights("clean:*", ["b1"]);
+  assert.match(sql, /ts_headline\('english', replace\(.*"title", '&', '&amp;'\)/);
+  assert.match(sql, /'<', '&lt;'/);
+});
+
+test("highlight tidak menjalankan query jika halaman kosong", async () => {
+  (prisma as any).$queryRaw = async () => {
+    throw new Error("tidak boleh dipanggil");
+  };
+  assert.equal((await getHighlights("clean:*", [])).size, 0);
+});
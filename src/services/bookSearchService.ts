@@ -0,0 +1,62 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+
+// Batas jumlah hasil full-text yang diranking per request
+export const MAX_FULLTEXT_MATCHES = Number(process.env.MAX_FULLTEXT_MATCHES) || 1000;
+
+export interface BookHighlights {
+  title: string;
+  writer: string;
+  publisher: string;
+  description: string | null;
+}
+
+// "clean archi" → "clean:* & archi:*" (prefix match, tiap kata di-stem oleh Postgres)
+export const buildTsQuery = (search: string) => {
+  const terms = search
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+  return terms.length > 0 ? terms.map((term) => `${term}:*`).join(" & ") : null;
+};
+
+// id buku yang cocok beserta skor relevansinya
+export const findFullTextMatches = async (tsQuery: string) => {
+  const rows = await prisma.$queryRaw<{ id: string; rank: number }[]>`
+    SELECT "id", ts_rank_cd("search_vector", query) AS rank
+    FROM "books", to_tsquery('english', ${tsQuery}) query
+    WHERE "deleted_at" IS NULL AND "search_vector" @@ query
+    ORDER BY rank DESC, "id"
+    LIMIT ${MAX_FULLTEXT_MATCHES}
+  `;
+
+  return new Map(rows.map((row) => [row.id, Number(row.rank)]));
+};
+
+// Kolom di-escape HTML dulu sebelum ts_headline, supaya satu-satunya markup di hasil adalah <mark>
+// (judul / deskripsi berisi "<script>" dikembalikan sebagai teks, bukan HTML)
+const escapedColumn = (column: "title" | "writer" | "publisher" | "description") =>
+  Prisma.raw(
+    `replace(replace(replace(replace(replace("${column}", '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;')`
+  );
+
+// Potongan teks dengan kata yang cocok dibungkus <mark>, hanya untuk buku di halaman ini
+export const getHighlights = async (tsQuery: string, ids: string[]) => {
+  if (ids.length === 0) return new Map<string, BookHighlights>();
+
+  const rows = await prisma.$queryRaw<({ id: string } & BookHighlights)[]>`
+    SELECT
+      "id",
+      ts_headline('english', ${escapedColumn("title")}, query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS title,
+      ts_headline('english', ${escapedColumn("writer")}, query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS writer,
+      ts_headline('english', ${escapedColumn("publisher")}, query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS publisher,
+      CASE WHEN "description" IS NULL THEN NULL
+        ELSE ts_headline('english', ${escapedColumn("description")}, query, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5')
+      END AS description
+    FROM "books", to_tsquery('english', ${tsQuery}) query
+    WHERE "id" IN (${Prisma.join(ids)})
+  `;
+
+  return new Map(rows.map(({ id, ...highlights }) => [id, highlights]));
+};
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { AuthorRole } from "@prisma/client";
+import prisma from "../config/prisma";
+import { HttpError } from "../utils/httpError";
+import {
+  formatWriter,
+  normalizeName,
+  resolveAuthors,
+  resolvePublisher,
+  splitWriterNames,
+} from "./contributorService";
+
+const original = { authors: prisma.authors, publishers: prisma.publishers };
+
+beforeEach(() => {
+  // Dry run hanya mencari nama yang sudah ada, tidak membuat yang baru
+  Object.assign(prisma as any, {
+    authors: {
+      findUnique: async ({ where }: any) =>
+        where.normalized_name === "robertcmartin" ? { id: "a1", name: "Robert C. Martin" } : null,
+    },
+    publishers: {
+      findUnique: async ({ where }: any) =>
+        where.normalized_name === "prenticehall" ? { id: "p1", name: "Prentice Hall" } : null,
+    },
+  });
+});
+
+afterEach(() => {
+  Object.assign(prisma as any, original);
+});
+
+test("nama dinormalisasi tanpa tanda baca, spasi dan huruf besar", () => {
+  assert.equal(normalizeName("J.K. Rowling"), "jkrowling");
+  assert.equal(normalizeName("JK  Rowling"), "jkrowling");
+  assert.equal(normalizeName("Pramoedya Ananta Toer"), "pramoedyaanantatoer");
+});
+
+test("kolom writer lama dipecah menjadi beberapa penulis", () => {
+  assert.deepEqual(splitWriterNames("Kent Beck, Martin Fowler & Erich Gamma;  ; ,"), [
+    "Kent Beck",
+    "Martin Fowler",
+    "Erich Gamma",
+  ]);
+});
+
+test("writer hanya menampilkan penulis utama, kecuali tidak ada role author", () => {
+  assert.equal(
+    formatWriter([
+      { name: "Kent Beck", role: AuthorRole.author },
+      { name: "Budi", role: AuthorRole.translator },
+    ]),
+    "Kent Beck"
+  );
+  assert.equal(formatWriter([{ name: "Budi", role: AuthorRole.editor }]), "Budi");
+});
+
+test("dry run memakai author yang sudah ada dan menolak penulis ganda", async () => {
+  const { writer, credits } = await resolveAuthors(
+    { authors: [{ name: "robert c martin" }, { name: "Budi", role: AuthorRole.translator }] },
+    true
+  );
+  assert.equal(writer, "Robert C. Martin");
+  assert.deepEqual(credits, [
+    { author_id: "a1", role: AuthorRole.author, position: 1 },
+    { author_id: "", role: AuthorRole.translator, position: 2 },
+  ]);
+
+  await assert.rejects(
+    resolveAuthors({ writer: "Robert C. Martin, robert c. martin" }, true),
+    (err) => err instanceof HttpError && err.status === 400
+  );
+  await assert.rejects(resolveAuthors({ writer: " , " }, true), /minimal satu penulis/);
+});
+
+test("dry run penerbit: nama yang dikenal dipakai, nama baru dibiarkan tanpa id", async () => {
+  assert.deepEqual(await resolvePublisher({ publisher: "prentice hall" }, true), {
+    publisher: "Prentice Hall",
+    publisher_id: "p1",
+  });
+  assert.deepEqual(await resolvePublisher({ publisher: " Gramedia " }, true), {
+    publisher: "Gramedia",
+    publisher_id: null,
+  });
+  await assert.rejects(resolvePublisher({ publisher: "" }, true), /wajib diisi/);
+});
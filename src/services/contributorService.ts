@@ -0,0 +1,149 @@
+import { AuthorRole } from "@prisma/client";
+import prisma from "../config/prisma";
+import { HttpError } from "../utils/httpError";
+import { AuthorCreditInput, ContributorInput } from "../utils/bookValidation";
+
+export const AUTHOR_ROLES = Object.values(AuthorRole);
+
+// "J.K. Rowling" dan "JK Rowling" → "jkrowling".
+// Harus sama dengan normalisasi di migration add_authors_publishers.
+export const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+// Kolom writer boleh berisi beberapa penulis: "A, B & C"
+export const splitWriterNames = (writer: string) =>
+  writer
+    .split(/[,;&]/)
+    .map((name) => name.trim())
+    .filter((name) => normalizeName(name) !== "");
+
+// Nama tampilan di kolom books.writer: penulis utama saja, kecuali buku tanpa role author
+export const formatWriter = (credits: { name: string; role: AuthorRole }[]) => {
+  const primary = credits.filter((credit) => credit.role === AuthorRole.author);
+  return (primary.length > 0 ? primary : credits).map((credit) => credit.name).join(", ");
+};
+
+// Nama yang sudah dikenal dipakai ulang (dan dipulihkan jika pernah di-soft delete)
+const findOrCreateAuthor = (name: string) => {
+  const now = new Date();
+  return prisma.authors.upsert({
+    where: { normalized_name: normalizeName(name) },
+    update: { deleted_at: null },
+    create: { name: name.trim(), normalized_name: normalizeName(name), created_at: now, updated_at: now },
+  });
+};
+
+const findOrCreatePublisher = (name: string) => {
+  const now = new Date();
+  return prisma.publishers.upsert({
+    where: { normalized_name: normalizeName(name) },
+    update: { deleted_at: null },
+    create: { name: name.trim(), normalized_name: normalizeName(name), created_at: now, updated_at: now },
+  });
+};
+
+// authors: [{ author_id | name, role }] (urutan array = urutan penulis), atau writer string lama.
+// dryRun = hanya cek, nama baru tidak dibuat.
+export const resolveAuthors = async (input: ContributorInput, dryRun = false) => {
+  if (input.authors !== undefined && !Array.isArray(input.authors)) {
+    throw new HttpError(400, "authors harus berupa array.");
+  }
+
+  const entries: AuthorCreditInput[] =
+    input.authors ?? splitWriterNames(input.writer ?? "").map((name) => ({ name }));
+  if (entries.length === 0) {
+    throw new HttpError(400, "Buku wajib memiliki minimal satu penulis.");
+  }
+
+  const credits: { author_id: string; role: AuthorRole; position: number }[] = [];
+  const names: { name: string; role: AuthorRole }[] = [];
+  const seen = new Set<string>();
+
+  for (const [index, entry] of entries.entries()) {
+    const role = (entry?.role ?? AuthorRole.author) as AuthorRole;
+    if (!AUTHOR_ROLES.includes(role)) {
+      throw new HttpError(400, `role penulis harus salah satu dari: ${AUTHOR_ROLES.join(", ")}.`);
+    }
+
+    let author: { id: string; name: string } | null;
+    if (entry?.author_id) {
+      author = await prisma.authors.findFirst({
+        where: { id: entry.author_id, deleted_at: null },
+      });
+      if (!author) {
+        throw new HttpError(400, `author_id ${entry.author_id} tidak valid.`);
+      }
+    } else if (typeof entry?.name === "string" && normalizeName(entry.name) !== "") {
+      author = dryRun
+        ? (await prisma.authors.findUnique({
+            where: { normalized_name: normalizeName(entry.name) },
+          })) ?? { id: "", name: entry.name.trim() }
+        : await findOrCreateAuthor(entry.name);
+    } else {
+      throw new HttpError(400, "Setiap penulis wajib memiliki author_id atau name.");
+    }
+
+    const key = `${normalizeName(author.name)}:${role}`;
+    if (seen.has(key)) {
+      throw new HttpError(400, `Penulis "${author.name}" tercantum lebih dari sekali dengan role ${role}.`);
+    }
+    seen.add(key);
+
+    credits.push({ author_id: author.id, role, position: index + 1 });
+    names.push({ name: author.name, role });
+  }
+
+  return { writer: formatWriter(names), credits };
+};
+
+// publisher_id, atau nama penerbit (dibuat otomatis jika belum ada)
+export const resolvePublisher = async (input: ContributorInput, dryRun = false) => {
+  if (input.publisher_id) {
+    const publisher = await prisma.publishers.findFirst({
+      where: { id: input.publisher_id, deleted_at: null },
+    });
+    if (!publisher) {
+      throw new HttpError(400, "publisher_id tidak valid.");
+    }
+    return { publisher: publisher.name, publisher_id: publisher.id };
+  }
+
+  if (typeof input.publisher !== "string" || normalizeName(input.publisher) === "") {
+    throw new HttpError(400, "publisher atau publisher_id wajib diisi.");
+  }
+
+  if (dryRun) {
+    const existing = await prisma.publishers.findUnique({
+      where: { normalized_name: normalizeName(input.publisher) },
+    });
+    return { publisher: existing?.name ?? input.publisher.trim(), publisher_id: existing?.id ?? null };
+  }
+
+  const publisher = await findOrCreatePublisher(input.publisher);
+  return { publisher: publisher.name, publisher_id: publisher.id };
+};
+
+// Tulis ulang books.writer setelah nama author berubah
+export const syncWriterColumn = async (authorId: string) => {
+  const books = await prisma.books.findMany({
+    where: { authors: { some: { author_id: authorId } } },
+    select: {
+      id: true,
+      authors: {
+        orderBy: { position: "asc" },
+        select: { role: true, author: { select: { name: true } } },
+      },
+    },
+  });
+
+  for (const book of books) {
+    await prisma.books.update({
+      where: { id: book.id },
+      data: {
+        writer: formatWriter(
+          book.authors.map((credit) => ({ name: credit.author.name, role: credit.role }))
+        ),
+      },
+    });
+  }
+};
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import sharp from "sharp";
+import { HttpError } from "../utils/httpError";
+import { coverUrls, deleteCover, storeCover, withCover } from "./coverService";
+import { FileStorage, localFileStorage, setFileStorage } from "./storageService";
+
+let files: Map<string, Buffer>;
+
+beforeEach(() => {
+  files = new Map();
+  const memoryStorage: FileStorage = {
+    async put(key, data) {
+      files.set(key, data);
+    },
+    async delete(key) {
+      files.delete(key);
+    },
+    url: (key) => `https://cdn.example.com/${key}`,
+  };
+  setFileStorage(memoryStorage);
+});
+
+afterEach(() => {
+  setFileStorage(localFileStorage);
+});
+
+test("cover disimpan sebagai WebP dalam semua ukuran, tanpa memperbesar gambar kecil", async () => {
+  const png = await sharp({
+    create: { width: 300, height: 450, channels: 3, background: "#336699" },
+  })
+    .png()
+    .toBuffer();
+
+  const coverPath = await storeCover("b1", png);
+  assert.match(coverPath, /^covers\/b1\/[0-9a-z]+$/);
+
+  const widths: Record<string, number | undefined> = {};
+  for (const [key, data] of files) {
+    const metadata = await sharp(data).metadata();
+    assert.equal(metadata.format, "webp");
+    widths[key.slice(coverPath.length + 1)] = metadata.width;
+  }
+  assert.deepEqual(widths, {
+    "small.webp": 200,
+    "medium.webp": 300,
+    "large.webp": 300,
+    "original.webp": 300,
+  });
+
+  await deleteCover(coverPath);
+  assert.equal(files.size, 0);
+});
+
+test("file yang bukan gambar ditolak 400", async () => {
+  await assert.rejects(
+    storeCover("b1", Buffer.from("<?php echo 'bukan gambar'; ?>")),
+    (err) => err instanceof HttpError && err.status === 400
+  );
+  assert.equal(files.size, 0);
+});
+
+test("response buku memuat URL tiap ukuran, null jika belum ada cover", () => {
+  assert.equal(withCover({ id: "b1", cover_path: null }).cover, null);
+  assert.deepEqual(coverUrls("covers/b1/v1"), {
+    small: "https://cdn.example.com/covers/b1/v1/small.webp",
+    medium: "https://cdn.example.com/covers/b1/v1/medium.webp",
+    large: "https://cdn.example.com/covers/b1/v1/large.webp",
+    original: "https://cdn.example.com/covers/b1/v1/original.webp",
+  });
+});
+
+test("storage lokal menolak key yang keluar dari folder storage", async () => {
+  await assert.rejects(localFileStorage.delete("../../etc/passwd"), /Key storage tidak valid/);
+});
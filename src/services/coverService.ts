@@ -0,0 +1,73 @@
+import crypto from "crypto";
+import sharp from "sharp";
+import { HttpError } from "../utils/httpError";
+import { getFileStorage } from "./storageService";
+
+export const COVER_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp"];
+export const COVER_MAX_SIZE_MB = 5;
+
+// Lebar tiap ukuran (px). "original" tetap dibatasi supaya file raksasa tidak disajikan apa adanya.
+const COVER_WIDTHS = {
+  small: 200,
+  medium: 400,
+  large: 800,
+  original: 1600,
+};
+
+type CoverSize = keyof typeof COVER_WIDTHS;
+
+const coverKey = (coverPath: string, size: CoverSize) => `${coverPath}/${size}.webp`;
+
+// Semua ukuran disimpan sebagai WebP di folder baru per upload (covers/<book_id>/<versi>),
+// jadi URL lama tidak pernah berubah isi dan aman di-cache lama.
+export const storeCover = async (bookId: string, data: Buffer) => {
+  // Cek isi file benar-benar gambar, bukan sekadar mimetype dari client
+  const metadata = await sharp(data)
+    .metadata()
+    .catch((): null => null);
+  if (!metadata || !["jpeg", "png", "webp"].includes(metadata.format)) {
+    throw new HttpError(400, "File cover bukan gambar JPEG, PNG, atau WebP yang valid.");
+  }
+
+  const coverPath = `covers/${bookId}/${Date.now().toString(36)}${crypto
+    .randomBytes(4)
+    .toString("hex")}`;
+  const storage = getFileStorage();
+
+  for (const [size, width] of Object.entries(COVER_WIDTHS) as [CoverSize, number][]) {
+    const image = await sharp(data)
+      .rotate()
+      .resize({ width, withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+    await storage.put(coverKey(coverPath, size), image, "image/webp");
+  }
+
+  return coverPath;
+};
+
+export const deleteCover = async (coverPath: string) => {
+  const storage = getFileStorage();
+  await Promise.all(
+    (Object.keys(COVER_WIDTHS) as CoverSize[]).map((size) =>
+      storage.delete(coverKey(coverPath, size))
+    )
+  );
+};
+
+export const coverUrls = (coverPath: string | null) => {
+  if (!coverPath) return null;
+  const storage = getFileStorage();
+  return Object.fromEntries(
+    (Object.keys(COVER_WIDTHS) as CoverSize[]).map((size) => [
+      size,
+      storage.url(coverKey(coverPath, size)),
+    ])
+  ) as Record<CoverSize, string>;
+};
+
+// Tambahkan field cover (URL per ukuran) ke response buku
+export const withCover = <T extends { cover_path: string | null }>(book: T) => ({
+  ...book,
+  cover: coverUrls(book.cover_path),
+});
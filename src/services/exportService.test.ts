@@ -0,0 +1,137 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Writable } from "stream";
+import { Response } from "express";
+import { streamExport } from "./exportService";
+
+// Response palsu: buffer kecil supaya backpressure langsung terjadi, tulisan tidak pernah di-flush
+const stalledResponse = () => {
+  const res = new Writable({ highWaterMark: 16, write: () => undefined });
+  return Object.assign(res, { setHeader: () => res }) as unknown as Response & Writable;
+};
+
+test("export berhenti dan menutup iterator saat client putus di tengah jalan", async () => {
+  const res = stalledResponse();
+  let fetched = 0;
+  let closed = false;
+
+  async function* batches() {
+    try {
+      while (true) {
+        fetched += 1;
+        yield [{ id: `row-${fetched}`, title: "x".repeat(64) }];
+      }
+    } finally {
+      closed = true;
+    }
+  }
+
+  const done = streamExport(res, {
+    format: "csv",
+    filename: "books",
+    columns: [
+      { header: "id", value: (row: { id: string }) => row.id },
+      { header: "title", value: (row: { title: string }) => row.title },
+    ],
+    batches: batches(),
+  });
+  setImmediate(() => res.destroy());
+
+  await done;
+  assert.equal(closed, true);
+  assert.equal(fetched, 1);
+});
+
+test("error pada batch pertama dilempar sebelum header dikirim", async () => {
+  const res = stalledResponse();
+  const headers: string[] = [];
+  res.setHeader = ((name: string) => headers.push(name)) as any;
+
+  async function* batches(): AsyncGenerator<{ id: string }[]> {
+    throw new Error("query gagal");
+  }
+
+  await assert.rejects(
+    streamExport(res, {
+      format: "jsonl",
+      filename: "books",
+      columns: [{ header: "id", value: (row) => row.id }],
+      batches: batches(),
+    }),
+    /query gagal/
+  );
+  assert.deepEqual(headers, []);
+});
+
+// Response yang mengumpulkan semua tulisan
+const collectingResponse = () => {
+  const chunks: Buffer[] = [];
+  const res = new Writable({
+    write: (chunk, _encoding, callback) => {
+      chunks.push(Buffer.from(chunk));
+      callback();
+    },
+  });
+  const headers: Record<string, string> = {};
+  Object.assign(res, { setHeader: (name: string, value: string) => (headers[name] = value) });
+  const finished = new Promise((resolve) => res.on("finish", resolve));
+  const text = () => Buffer.concat(chunks).toString();
+  return { res: res as unknown as Response, headers, finished, text };
+};
+
+async function* once<T>(rows: T[]) {
+  yield rows;
+}
+
+test("CSV: formula dinetralkan, koma & kutip di-escape, tanggal ISO", async () => {
+  const { res, headers, finished, text } = collectingResponse();
+
+  await streamExport(res, {
+    format: "csv",
+    filename: "books",
+    columns: [
+      { header: "title", value: (row: { title: string; at: Date }) => row.title },
+      { header: "at", value: (row) => row.at },
+    ],
+    batches: once([
+      { title: "=HYPERLINK(\"http://x\")", at: new Date("2025-01-31T00:00:00.000Z") },
+      { title: "Halo, Dunia", at: new Date("2025-02-01T00:00:00.000Z") },
+    ]),
+  });
+  await finished;
+
+  assert.equal(headers["Content-Type"], "text/csv; charset=utf-8");
+  assert.equal(headers["Content-Disposition"], 'attachment; filename="books.csv"');
+  assert.equal(
+    text(),
+    "title,at\r\n" +
+      '"\'=HYPERLINK(""http://x"")",2025-01-31T00:00:00.000Z\r\n' +
+      '"Halo, Dunia",2025-02-01T00:00:00.000Z\r\n'
+  );
+});
+
+test("JSON Lines: satu objek per baris, nilai kosong jadi null", async () => {
+  const { res, finished, text } = collectingResponse();
+
+  await streamExport(res, {
+    format: "jsonl",
+    filename: "genres",
+    columns: [
+      { header: "id", value: (row: { id: string; note?: string }) => row.id },
+      { header: "note", value: (row) => row.note },
+    ],
+    batches: once([{ id: "g1" }, { id: "g2", note: "=1+1" }]),
+  });
+  await finished;
+
+  assert.deepEqual(
+    text()
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line)),
+    [
+      { id: "g1", note: null },
+      { id: "g2", note: "=1+1" },
+    ]
+  );
+});
@@ -0,0 +1,126 @@
+import { Response } from "express";
+import ExcelJS from "exceljs";
+
+export const EXPORT_FORMATS = ["csv", "jsonl", "xlsx"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  EXPORT_FORMATS.includes(value as ExportFormat);
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | Date | null | undefined;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  jsonl: "application/x-ndjson; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// Teks yang diawali karakter ini dibaca Excel sebagai formula (CSV injection),
+// jadi diberi prefix ' supaya tetap tampil sebagai teks
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Tunggu drain, close atau error (mana yang duluan). false = client sudah putus.
+const waitForDrain = (res: Response) =>
+  new Promise<boolean>((resolve) => {
+    const settle = (drained: boolean) => () => {
+      res.off("drain", onDrain);
+      res.off("close", onClose);
+      res.off("error", onClose);
+      resolve(drained);
+    };
+    const onDrain = settle(true);
+    const onClose = settle(false);
+    res.on("drain", onDrain);
+    res.on("close", onClose);
+    res.on("error", onClose);
+  });
+
+// Tulis ke response dengan menghormati backpressure. false = client sudah putus, berhenti menulis.
+const write = async (res: Response, chunk: string) => {
+  if (res.destroyed) return false;
+  return res.write(chunk) || waitForDrain(res);
+};
+
+// Stream data per batch langsung ke response, tanpa menampung seluruh data di memori
+export const streamExport = async <T>(
+  res: Response,
+  options: {
+    format: ExportFormat;
+    filename: string;
+    columns: ExportColumn<T>[];
+    batches: AsyncIterable<T[]>;
+  }
+) => {
+  const { format, filename, columns, batches } = options;
+
+  // Batch pertama diambil sebelum header dikirim, supaya error di awal (mis. query tidak valid)
+  // masih bisa dijawab dengan JSON biasa
+  const iterator = batches[Symbol.asyncIterator]();
+  const first = await iterator.next();
+
+  // Client putus di tengah export → berhenti mengambil batch dari database
+  async function* remaining(): AsyncGenerator<T[]> {
+    if (first.done) return;
+    yield first.value;
+    while (!res.destroyed) {
+      const next = await iterator.next();
+      if (next.done) return;
+      yield next.value;
+    }
+  }
+
+  res.setHeader("Content-Type", CONTENT_TYPES[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}.${format}"`);
+
+  try {
+    if (format === "xlsx") {
+      const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res });
+      const sheet = workbook.addWorksheet(filename);
+      sheet.addRow(columns.map((column) => column.header)).commit();
+
+      for await (const batch of remaining()) {
+        for (const row of batch) {
+          sheet.addRow(columns.map((column) => column.value(row) ?? null)).commit();
+        }
+      }
+      if (res.destroyed) return;
+
+      sheet.commit();
+      await workbook.commit();
+      return;
+    }
+
+    if (format === "csv") {
+      const header = columns.map((column) => csvCell(column.header)).join(",") + "\r\n";
+      if (!(await write(res, header))) return;
+    }
+
+    for await (const batch of remaining()) {
+      const chunk = batch
+        .map((row) =>
+          format === "csv"
+            ? columns.map((column) => csvCell(column.value(row))).join(",") + "\r\n"
+            : JSON.stringify(
+                Object.fromEntries(columns.map((column) => [column.header, column.value(row) ?? null]))
+              ) + "\n"
+        )
+        .join("");
+      if (!(await write(res, chunk))) return;
+    }
+
+    res.end();
+  } finally {
+    // Tutup iterator (mis. generator query database) juga saat berhenti di tengah jalan
+    await iterator.return?.();
+  }
+};
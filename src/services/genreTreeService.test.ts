@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import { buildGenreTree, createsGenreCycle, getDescendantIds } from "./genreTreeService";
+
+// Teknologi → Pemrograman → TypeScript, Teknologi → Cloud; Fiksi berdiri sendiri
+const genres = [
+  { id: "cloud", name: "Cloud", parent_id: "tech" },
+  { id: "fiction", name: "Fiksi", parent_id: null },
+  { id: "prog", name: "Pemrograman", parent_id: "tech" },
+  { id: "tech", name: "Teknologi", parent_id: null },
+  { id: "ts", name: "TypeScript", parent_id: "prog" },
+].map((genre) => ({ ...genre, default_reorder_threshold: null as number | null }));
+
+const clientFor = (rows: { id: string; parent_id: string | null }[]) =>
+  ({
+    genres: {
+      findUnique: async ({ where }: any) => rows.find((row) => row.id === where.id) ?? null,
+    },
+  } as unknown as Prisma.TransactionClient);
+
+const originalGenres = prisma.genres;
+
+beforeEach(() => {
+  (prisma as any).genres = { findMany: async (): Promise<object[]> => genres };
+});
+
+afterEach(() => {
+  (prisma as any).genres = originalGenres;
+});
+
+test("pohon genre tersusun dari akar sampai cucu", async () => {
+  const roots = await buildGenreTree();
+
+  assert.deepEqual(
+    roots.map((root) => root.id),
+    ["fiction", "tech"]
+  );
+  const tech = roots[1];
+  assert.deepEqual(
+    tech.children.map((child) => child.id),
+    ["cloud", "prog"]
+  );
+  assert.equal(tech.children[1].children[0].id, "ts");
+});
+
+test("turunan genre mencakup anak dan cucu, tanpa genre itu sendiri", async () => {
+  assert.deepEqual(await getDescendantIds("tech"), ["cloud", "prog", "ts"]);
+  assert.deepEqual(await getDescendantIds("ts"), []);
+});
+
+test("turunan tetap berhenti jika data lama membentuk siklus", async () => {
+  (prisma as any).genres = {
+    findMany: async (): Promise<object[]> => [
+      { id: "a", name: "A", parent_id: "b" },
+      { id: "b", name: "B", parent_id: "a" },
+    ],
+  };
+
+  assert.deepEqual(await getDescendantIds("a"), ["b"]);
+});
+
+test("genre tidak boleh dijadikan anak dirinya sendiri atau turunannya", async () => {
+  const client = clientFor(genres);
+
+  assert.equal(await createsGenreCycle("tech", "tech", client), true);
+  assert.equal(await createsGenreCycle("tech", "ts", client), true);
+  assert.equal(await createsGenreCycle("ts", "cloud", client), false);
+  assert.equal(await createsGenreCycle("fiction", "ts", client), false);
+});
+
+test("cek siklus tetap berhenti jika rantai induk lama sudah berputar", async () => {
+  const client = clientFor([
+    { id: "a", parent_id: "b" },
+    { id: "b", parent_id: "a" },
+  ]);
+
+  assert.equal(await createsGenreCycle("x", "a", client), false);
+});
@@ -0,0 +1,83 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+
+export interface GenreNode {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  default_reorder_threshold: number | null;
+  children: GenreNode[];
+}
+
+// Seluruh genre aktif (jumlahnya kecil, cukup diolah di memori)
+const loadActiveGenres = () =>
+  prisma.genres.findMany({
+    where: { deleted_at: null },
+    select: { id: true, name: true, parent_id: true, default_reorder_threshold: true },
+    orderBy: { name: "asc" },
+  });
+
+// Pohon genre: genre tanpa induk aktif menjadi akar, anak diurutkan per nama
+export const buildGenreTree = async () => {
+  const genres = await loadActiveGenres();
+  const nodes = new Map<string, GenreNode>(
+    genres.map((genre): [string, GenreNode] => [genre.id, { ...genre, children: [] }])
+  );
+
+  const roots: GenreNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+
+  return roots;
+};
+
+// Semua turunan genre (anak, cucu, dst.), tanpa genre itu sendiri
+export const getDescendantIds = async (genreId: string) => {
+  const genres = await loadActiveGenres();
+  const childrenOf = new Map<string, string[]>();
+  for (const genre of genres) {
+    if (!genre.parent_id) continue;
+    childrenOf.set(genre.parent_id, [...(childrenOf.get(genre.parent_id) ?? []), genre.id]);
+  }
+
+  // visited: berjaga-jaga jika data lama sempat membentuk siklus, supaya loop tetap berhenti
+  const visited = new Set<string>([genreId]);
+  const descendants: string[] = [];
+  const queue = [...(childrenOf.get(genreId) ?? [])];
+  while (queue.length > 0) {
+    const id = queue.shift();
+    if (visited.has(id)) continue;
+    visited.add(id);
+    descendants.push(id);
+    queue.push(...(childrenOf.get(id) ?? []));
+  }
+
+  return descendants;
+};
+
+// true jika genreId dijadikan anak parentId akan membentuk siklus
+// (parentId adalah genreId sendiri atau salah satu turunannya).
+// client = tx supaya bisa dijalankan di transaksi yang sama dengan update-nya.
+export const createsGenreCycle = async (
+  genreId: string,
+  parentId: string,
+  client: Prisma.TransactionClient = prisma
+) => {
+  let current: string | null = parentId;
+  const visited = new Set<string>();
+
+  while (current && !visited.has(current)) {
+    if (current === genreId) return true;
+    visited.add(current);
+    const parent: { parent_id: string | null } | null = await client.genres.findUnique({
+      where: { id: current },
+      select: { parent_id: true },
+    });
+    current = parent?.parent_id ?? null;
+  }
+
+  return false;
+};
@@ -0,0 +1,91 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { NotificationType, Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import {
+  DEFAULT_REORDER_THRESHOLD,
+  checkLowStock,
+  effectiveThreshold,
+  getLowStockReport,
+} from "./inventoryAlertService";
+
+const originalQueryRaw = prisma.$queryRaw;
+
+afterEach(() => {
+  (prisma as any).$queryRaw = originalQueryRaw;
+});
+
+const fakeTx = (book: object | null) => {
+  const notifications: any[] = [];
+  const tx = {
+    books: { findUnique: async () => book },
+    notifications: {
+      create: async ({ data }: any) => {
+        notifications.push(data);
+        return data;
+      },
+    },
+  };
+  return { tx: tx as unknown as Prisma.TransactionClient, notifications };
+};
+
+const book = (fields: object = {}) => ({
+  id: "b1",
+  title: "Clean Code",
+  reorder_threshold: null as number | null,
+  deleted_at: null as Date | null,
+  genre: { default_reorder_threshold: 10 },
+  ...fields,
+});
+
+test("ambang buku mengalahkan ambang genre, lalu default", () => {
+  assert.equal(effectiveThreshold(3, 10), 3);
+  assert.equal(effectiveThreshold(null, 10), 10);
+  assert.equal(effectiveThreshold(null, null), DEFAULT_REORDER_THRESHOLD);
+});
+
+test("alert hanya dibuat saat stok melewati ambang dari atas ke bawah", async () => {
+  const { tx, notifications } = fakeTx(book());
+
+  assert.equal(await checkLowStock(tx, "b1", 12, 11), null);
+  await checkLowStock(tx, "b1", 10, 9);
+  // Sudah di bawah ambang → penjualan berikutnya tidak membuat alert lagi
+  assert.equal(await checkLowStock(tx, "b1", 9, 8), null);
+  // Stok naik tidak pernah membuat alert
+  assert.equal(await checkLowStock(tx, "b1", 8, 20), null);
+
+  assert.equal(notifications.length, 1);
+  assert.equal(notifications[0].type, NotificationType.low_stock);
+  assert.equal(notifications[0].book_id, "b1");
+  assert.deepEqual(notifications[0].data, { stock_quantity: 9, threshold: 10 });
+});
+
+test("buku yang sudah dihapus tidak membuat alert", async () => {
+  const { tx, notifications } = fakeTx(book({ deleted_at: new Date() }));
+
+  assert.equal(await checkLowStock(tx, "b1", 10, 0), null);
+  assert.deepEqual(notifications, []);
+});
+
+test("laporan low-stock diurutkan dari perkiraan habis paling cepat", async () => {
+  (prisma as any).$queryRaw = async (): Promise<object[]> => [
+    { id: "slow", title: "A", genre_id: "g1", stock_quantity: 4, threshold: 5, sold: BigInt(3) },
+    { id: "unsold", title: "B", genre_id: "g1", stock_quantity: 1, threshold: 5, sold: 0 },
+    { id: "fast", title: "C", genre_id: "g1", stock_quantity: 3, threshold: 5, sold: BigInt(30) },
+    { id: "empty", title: "D", genre_id: "g1", stock_quantity: 0, threshold: 5, sold: 0 },
+  ];
+
+  const { items } = await getLowStockReport(30);
+
+  assert.deepEqual(
+    items.map((item) => [item.book_id, item.days_until_stockout]),
+    [
+      ["empty", 0],
+      ["fast", 3],
+      ["slow", 40],
+      ["unsold", null],
+    ]
+  );
+  assert.equal(items[1].daily_sales_velocity, 1);
+  assert.equal(items[1].sold_last_period, 30);
+});
@@ -0,0 +1,115 @@
+import { NotificationType, Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import { parseReorderThreshold } from "../utils/bookValidation";
+
+// Ambang reorder jika buku & genre-nya tidak mengatur sendiri.
+// Nilai env kosong / tidak valid (bukan bilangan bulat >= 0) → 5.
+export const DEFAULT_REORDER_THRESHOLD =
+  parseReorderThreshold(process.env.DEFAULT_REORDER_THRESHOLD) ?? 5;
+
+// Periode penjualan (hari) untuk menghitung kecepatan jual di laporan low-stock
+export const SALES_VELOCITY_DAYS = Number(process.env.SALES_VELOCITY_DAYS) || 30;
+
+export const effectiveThreshold = (
+  bookThreshold: number | null,
+  genreThreshold: number | null | undefined
+) => bookThreshold ?? genreThreshold ?? DEFAULT_REORDER_THRESHOLD;
+
+// Dipanggil setiap kali saldo stok berubah (stockService). Alert hanya dibuat saat stok
+// melewati ambang dari atas ke bawah, supaya penjualan berikutnya tidak membanjiri notifikasi.
+export const checkLowStock = async (
+  tx: Prisma.TransactionClient,
+  bookId: string,
+  previousStock: number,
+  currentStock: number
+) => {
+  if (currentStock >= previousStock) return null;
+
+  const book = await tx.books.findUnique({
+    where: { id: bookId },
+    select: {
+      id: true,
+      title: true,
+      reorder_threshold: true,
+      deleted_at: true,
+      genre: { select: { default_reorder_threshold: true } },
+    },
+  });
+  if (!book || book.deleted_at) return null;
+
+  const threshold = effectiveThreshold(book.reorder_threshold, book.genre?.default_reorder_threshold);
+  if (!(previousStock >= threshold && currentStock < threshold)) return null;
+
+  return tx.notifications.create({
+    data: {
+      type: NotificationType.low_stock,
+      title: `Stok menipis: ${book.title}`,
+      message: `Stok "${book.title}" tinggal ${currentStock}, di bawah ambang reorder ${threshold}.`,
+      book_id: book.id,
+      data: { stock_quantity: currentStock, threshold },
+      created_at: new Date(),
+    },
+  });
+};
+
+interface LowStockRow {
+  id: string;
+  title: string;
+  genre_id: string;
+  stock_quantity: number;
+  threshold: number;
+  sold: bigint | number;
+}
+
+// Buku dengan stok di bawah ambang, paling mendesak dulu.
+// Kecepatan jual = total quantity order_items dalam `days` hari terakhir / days.
+export const getLowStockReport = async (days = SALES_VELOCITY_DAYS) => {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const rows = await prisma.$queryRaw<LowStockRow[]>`
+    SELECT b."id", b."title", b."genre_id", b."stock_quantity",
+      COALESCE(b."reorder_threshold", g."default_reorder_threshold", ${DEFAULT_REORDER_THRESHOLD}::int) AS threshold,
+      COALESCE(sold."quantity", 0) AS sold
+    FROM "books" b
+    JOIN "genres" g ON g."id" = b."genre_id"
+    LEFT JOIN (
+      SELECT oi."book_id", SUM(oi."quantity") AS quantity
+      FROM "order_items" oi
+      JOIN "orders" o ON o."id" = oi."order_id"
+      WHERE o."created_at" >= ${since}
+      GROUP BY oi."book_id"
+    ) sold ON sold."book_id" = b."id"
+    WHERE b."deleted_at" IS NULL
+      AND b."stock_quantity" < COALESCE(b."reorder_threshold", g."default_reorder_threshold", ${DEFAULT_REORDER_THRESHOLD}::int)
+  `;
+
+  const items = rows.map((row) => {
+    const velocity = Number(row.sold) / days;
+    return {
+      book_id: row.id,
+      title: row.title,
+      genre_id: row.genre_id,
+      stock_quantity: row.stock_quantity,
+      threshold: row.threshold,
+      sold_last_period: Number(row.sold),
+      daily_sales_velocity: Math.round(velocity * 100) / 100,
+      // null = belum ada penjualan di periode ini, jadi tidak bisa diperkirakan
+      days_until_stockout:
+        row.stock_quantity <= 0
+          ? 0
+          : velocity > 0
+          ? Math.round((row.stock_quantity / velocity) * 10) / 10
+          : null,
+    };
+  });
+
+  // Urgensi: perkiraan habis paling cepat, lalu stok paling jauh di bawah ambang
+  items.sort((a, b) => {
+    const aDays = a.days_until_stockout ?? Infinity;
+    const bDays = b.days_until_stockout ?? Infinity;
+    if (aDays !== bDays) return aDays - bDays;
+    return a.stock_quantity / (a.threshold || 1) - b.stock_quantity / (b.threshold || 1);
+  });
+
+  return { period_days: days, since, items };
+};
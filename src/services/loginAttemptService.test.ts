@@ -0,0 +1,48 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { users } from "@prisma/client";
+import prisma from "../config/prisma";
+import { getLockRetryAfter, recordFailedLogin } from "./loginAttemptService";
+
+const originalUsers = prisma.users;
+
+afterEach(() => {
+  (prisma as any).users = originalUsers;
+});
+
+// Tabel users di memori: update (increment) & updateMany (bersyarat) atomik seperti di Postgres
+const fakeUsers = (row: { id: string; failed_login_attempts: number; locked_until: Date | null }) => {
+  (prisma as any).users = {
+    update: async ({ data }: any) => {
+      await new Promise((resolve) => setImmediate(resolve));
+      row.failed_login_attempts += data.failed_login_attempts.increment;
+      return { failed_login_attempts: row.failed_login_attempts };
+    },
+    updateMany: async ({ where, data }: any) => {
+      await new Promise((resolve) => setImmediate(resolve));
+      if (row.failed_login_attempts < where.failed_login_attempts.gte) return { count: 0 };
+      Object.assign(row, data);
+      return { count: 1 };
+    },
+  };
+  return row;
+};
+
+test("login gagal di bawah batas tidak mengunci akun", async () => {
+  const row = fakeUsers({ id: "u1", failed_login_attempts: 0, locked_until: null });
+
+  assert.equal(await recordFailedLogin(row as users), null);
+  assert.equal(row.failed_login_attempts, 1);
+  assert.equal(row.locked_until, null);
+});
+
+test("tebakan bersamaan dari salinan user yang sama tetap mengunci akun tepat sekali", async () => {
+  const row = fakeUsers({ id: "u1", failed_login_attempts: 0, locked_until: null });
+  const stale = { ...row } as users;
+
+  const results = await Promise.all(Array.from({ length: 5 }, () => recordFailedLogin(stale)));
+
+  assert.equal(results.filter(Boolean).length, 1);
+  assert.equal(row.failed_login_attempts, 0);
+  assert.ok(row.locked_until && getLockRetryAfter(row as users));
+});
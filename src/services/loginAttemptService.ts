@@ -0,0 +1,40 @@
+import { users } from "@prisma/client";
+import prisma from "../config/prisma";
+
+const LOGIN_MAX_FAILED_ATTEMPTS = Number(process.env.LOGIN_MAX_FAILED_ATTEMPTS) || 5;
+export const LOGIN_LOCK_MS = (Number(process.env.LOGIN_LOCK_MINUTES) || 15) * 60 * 1000;
+
+// Sisa detik akun terkunci, null jika tidak sedang dikunci
+export const getLockRetryAfter = (user: users) =>
+  user.locked_until && user.locked_until > new Date()
+    ? Math.ceil((user.locked_until.getTime() - Date.now()) / 1000)
+    : null;
+
+// Catat login gagal. Mengembalikan waktu akhir kunci jika akun baru saja dikunci.
+// Counter dinaikkan di database supaya tebakan yang datang bersamaan tetap terhitung semua.
+export const recordFailedLogin = async (user: users) => {
+  const { failed_login_attempts } = await prisma.users.update({
+    where: { id: user.id },
+    data: { failed_login_attempts: { increment: 1 } },
+    select: { failed_login_attempts: true },
+  });
+  if (failed_login_attempts < LOGIN_MAX_FAILED_ATTEMPTS) return null;
+
+  // Counter dimulai ulang setelah akun dikunci. Kondisi gte memastikan hanya satu request yang mengunci.
+  const lockedUntil = new Date(Date.now() + LOGIN_LOCK_MS);
+  const { count } = await prisma.users.updateMany({
+    where: { id: user.id, failed_login_attempts: { gte: LOGIN_MAX_FAILED_ATTEMPTS } },
+    data: { failed_login_attempts: 0, locked_until: lockedUntil },
+  });
+
+  return count > 0 ? lockedUntil : null;
+};
+
+export const resetFailedLogins = async (user: users) => {
+  if (user.failed_login_attempts > 0 || user.locked_until) {
+    await prisma.users.update({
+      where: { id: user.id },
+      data: { failed_login_attempts: 0, locked_until: null },
+    });
+  }
+};
@@ -0,0 +1,39 @@
+import prisma from "../config/prisma";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Kontrak transport email. Implementasi lain (SMTP, API provider) cukup memenuhi interface ini
+// lalu didaftarkan lewat setMailTransport().
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Default: simpan pesan ke tabel mail_outbox supaya alur bisa dites tanpa SMTP
+export const outboxTransport: MailTransport = {
+  async send(message) {
+    await prisma.mail_outbox.create({
+      data: {
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        created_at: new Date(),
+      },
+    });
+  },
+};
+
+let transport: MailTransport = outboxTransport;
+
+export const setMailTransport = (next: MailTransport) => {
+  transport = next;
+};
+
+export const sendMail = (message: MailMessage) => transport.send(message);
+
+// URL frontend untuk link di email
+export const appUrl = (path: string) =>
+  `${process.env.APP_URL || "http://localhost:5173"}${path}`;
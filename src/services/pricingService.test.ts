@@ -0,0 +1,82 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { sales } from "@prisma/client";
+import prisma from "../config/prisma";
+import { priceHistoryEntry, resolveEffectivePrices } from "./pricingService";
+
+const original = { book_genres: prisma.book_genres, sales: prisma.sales };
+
+afterEach(() => {
+  Object.assign(prisma as any, original);
+});
+
+const ends_at = new Date("2025-12-31T00:00:00.000Z");
+
+const sale = (fields: Partial<sales>): Partial<sales> => ({
+  id: "s",
+  label: null,
+  book_id: null,
+  genre_id: null,
+  sale_price: null,
+  discount_percent: null,
+  ends_at,
+  ...fields,
+});
+
+test("promo termurah dipakai, baik per buku maupun per genre tambahan", async () => {
+  let salesWhere: any;
+  Object.assign(prisma as any, {
+    book_genres: {
+      findMany: async (): Promise<object[]> => [{ book_id: "b1", genre_id: "g2" }],
+    },
+    sales: {
+      findMany: async ({ where }: any): Promise<object[]> => {
+        salesWhere = where;
+        return [
+          sale({ id: "s1", book_id: "b1", sale_price: 90 }),
+          sale({ id: "s2", genre_id: "g2", discount_percent: 33.333, label: "Promo genre" }),
+          sale({ id: "s3", genre_id: "g9", sale_price: 1 }),
+        ];
+      },
+    },
+  });
+  const at = new Date("2025-06-01T00:00:00.000Z");
+
+  const prices = await resolveEffectivePrices(
+    [
+      { id: "b1", genre_id: "g1", price: 100 },
+      { id: "b2", genre_id: "g1", price: 50 },
+    ],
+    at
+  );
+
+  assert.deepEqual(salesWhere.starts_at, { lte: at });
+  assert.deepEqual(salesWhere.ends_at, { gt: at });
+  assert.deepEqual(prices.get("b1"), {
+    effective_price: 66.67,
+    sale: { id: "s2", label: "Promo genre", ends_at },
+  });
+  // Promo genre lain tidak berlaku untuk b2
+  assert.deepEqual(prices.get("b2"), { effective_price: 50, sale: null });
+});
+
+test("promo yang lebih mahal dari harga normal diabaikan", async () => {
+  Object.assign(prisma as any, {
+    book_genres: { findMany: async (): Promise<object[]> => [] },
+    sales: {
+      findMany: async (): Promise<object[]> => [sale({ book_id: "b1", sale_price: 120 })],
+    },
+  });
+
+  const prices = await resolveEffectivePrices([{ id: "b1", genre_id: "g1", price: 100 }]);
+  assert.deepEqual(prices.get("b1"), { effective_price: 100, sale: null });
+});
+
+test("riwayat harga hanya dicatat jika harga berubah", () => {
+  assert.equal(priceHistoryEntry(100, 100, "u1"), undefined);
+
+  const entry = priceHistoryEntry(null, 75, "u1");
+  assert.equal(entry?.create.old_price, null);
+  assert.equal(entry?.create.new_price, 75);
+  assert.equal(entry?.create.changed_by, "u1");
+});
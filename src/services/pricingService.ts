@@ -0,0 +1,94 @@
+import { sales } from "@prisma/client";
+import prisma from "../config/prisma";
+
+interface PricedBook {
+  id: string;
+  genre_id: string;
+  price: number;
+}
+
+export interface EffectivePrice {
+  effective_price: number;
+  sale: { id: string; label: string | null; ends_at: Date } | null;
+}
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+const salePriceFor = (book: PricedBook, sale: sales) =>
+  sale.sale_price !== null
+    ? sale.sale_price
+    : roundPrice(book.price * (1 - (sale.discount_percent ?? 0) / 100));
+
+// Harga efektif per buku pada waktu `at`: promo termurah yang aktif (per buku atau per salah satu
+// genre buku), tidak pernah lebih mahal dari harga normal.
+export const resolveEffectivePrices = async (books: PricedBook[], at = new Date()) => {
+  const prices = new Map<string, EffectivePrice>();
+  if (books.length === 0) return prices;
+
+  const links = await prisma.book_genres.findMany({
+    where: { book_id: { in: books.map((book) => book.id) } },
+    select: { book_id: true, genre_id: true },
+  });
+  const genresOf = new Map<string, Set<string>>(
+    books.map((book) => [book.id, new Set([book.genre_id])])
+  );
+  for (const link of links) genresOf.get(link.book_id)?.add(link.genre_id);
+
+  const activeSales = await prisma.sales.findMany({
+    where: {
+      deleted_at: null,
+      starts_at: { lte: at },
+      ends_at: { gt: at },
+      OR: [
+        { book_id: { in: books.map((book) => book.id) } },
+        { genre_id: { in: [...new Set([...genresOf.values()].flatMap((ids) => [...ids]))] } },
+      ],
+    },
+  });
+
+  for (const book of books) {
+    let best: EffectivePrice = { effective_price: book.price, sale: null };
+
+    for (const sale of activeSales) {
+      if (sale.book_id !== book.id && !genresOf.get(book.id).has(sale.genre_id)) continue;
+      const price = salePriceFor(book, sale);
+      if (price < best.effective_price) {
+        best = {
+          effective_price: price,
+          sale: { id: sale.id, label: sale.label, ends_at: sale.ends_at },
+        };
+      }
+    }
+
+    prices.set(book.id, best);
+  }
+
+  return prices;
+};
+
+// Tambahkan effective_price & sale ke response buku
+export const withEffectivePrices = async <T extends PricedBook>(books: T[]) => {
+  const prices = await resolveEffectivePrices(books);
+  return books.map((book) => ({ ...book, ...prices.get(book.id) }));
+};
+
+export const withEffectivePrice = async <T extends PricedBook>(book: T) =>
+  (await withEffectivePrices([book]))[0];
+
+// Nested create untuk price_history, dipakai di setiap tulis books.price.
+// Tidak mencatat apa pun jika harga tidak berubah.
+export const priceHistoryEntry = (
+  oldPrice: number | null,
+  newPrice: number,
+  changedBy: string | null
+) =>
+  oldPrice === newPrice
+    ? undefined
+    : {
+        create: {
+          old_price: oldPrice,
+          new_price: newPrice,
+          changed_by: changedBy,
+          created_at: new Date(),
+        },
+      };
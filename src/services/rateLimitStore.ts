@@ -0,0 +1,74 @@
+import prisma from "../config/prisma";
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+// Kontrak penyimpanan counter rate limit (fixed window)
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+// Default: di memori proses. Cukup untuk satu instance.
+export const createMemoryStore = (): RateLimitStore => {
+  const hits = new Map<string, RateLimitHit>();
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      const current = hits.get(key);
+
+      if (!current || current.resetAt.getTime() <= now) {
+        // Bersihkan entry kedaluwarsa sesekali agar Map tidak terus membesar
+        if (hits.size > 10000) {
+          hits.forEach((hit, k) => {
+            if (hit.resetAt.getTime() <= now) hits.delete(k);
+          });
+        }
+        const hit = { count: 1, resetAt: new Date(now + windowMs) };
+        hits.set(key, hit);
+        return hit;
+      }
+
+      current.count += 1;
+      return current;
+    },
+    async reset(key) {
+      hits.delete(key);
+    },
+  };
+};
+
+// Tabel rate_limits → counter dibagi antar instance
+export const createDatabaseStore = (): RateLimitStore => ({
+  async increment(key, windowMs) {
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowMs);
+
+    // Satu query atomik: buat counter baru, atau naikkan / mulai ulang window
+    const rows = await prisma.$queryRaw<{ count: number; reset_at: Date }[]>`
+      INSERT INTO "rate_limits" ("key", "count", "reset_at")
+      VALUES (${key}, 1, ${resetAt})
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE WHEN "rate_limits"."reset_at" <= ${now} THEN 1 ELSE "rate_limits"."count" + 1 END,
+        "reset_at" = CASE WHEN "rate_limits"."reset_at" <= ${now} THEN ${resetAt} ELSE "rate_limits"."reset_at" END
+      RETURNING "count", "reset_at"
+    `;
+
+    return { count: Number(rows[0].count), resetAt: rows[0].reset_at };
+  },
+  async reset(key) {
+    await prisma.rate_limits.deleteMany({ where: { key } });
+  },
+});
+
+let store: RateLimitStore =
+  process.env.RATE_LIMIT_STORE === "database" ? createDatabaseStore() : createMemoryStore();
+
+export const getRateLimitStore = () => store;
+
+export const setRateLimitStore = (next: RateLimitStore) => {
+  store = next;
+};
@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Prisma } from "@prisma/client";
+import { recordCoPurchases } from "./recommendationService";
+
+// Tangkap query raw yang dikirim ke transaksi
+const captureTx = () => {
+  const queries: { sql: string; values: unknown[] }[] = [];
+  const tx = {
+    $executeRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      queries.push({ sql: strings.join("?"), values });
+      return 0;
+    },
+  } as unknown as Prisma.TransactionClient;
+  return { tx, queries };
+};
+
+test("pasangan co-purchase ditulis berurutan id, apa pun urutan item order", async () => {
+  const first = captureTx();
+  const second = captureTx();
+
+  await recordCoPurchases(first.tx, ["book-b", "book-a", "book-b"]);
+  await recordCoPurchases(second.tx, ["book-a", "book-b"]);
+
+  assert.deepEqual(first.queries[0].values, [
+    ["book-a", "book-b"],
+    ["book-a", "book-b"],
+  ]);
+  assert.deepEqual(first.queries[0].values, second.queries[0].values);
+  assert.match(first.queries[0].sql, /ORDER BY a, b/);
+});
+
+test("order dengan satu buku tidak mencatat pasangan", async () => {
+  const { tx, queries } = captureTx();
+  await recordCoPurchases(tx, ["book-a", "book-a"]);
+  assert.equal(queries.length, 0);
+});
@@ -0,0 +1,162 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import { bookInclude } from "./bookListService";
+import { withCover } from "./coverService";
+import { resolveEffectivePrices } from "./pricingService";
+
+type RecommendationReason = "co_purchase" | "same_genre" | "popular";
+
+interface Candidate {
+  id: string;
+  reason: RecommendationReason;
+  // Jumlah order bersamaan (co_purchase), null untuk fallback
+  score: number | null;
+}
+
+// Hanya buku yang bisa dibeli sekarang
+const available: Prisma.booksWhereInput = { deleted_at: null, stock_quantity: { gt: 0 } };
+
+const popularOrder: Prisma.booksOrderByWithRelationInput[] = [
+  { rating_count: "desc" },
+  { rating_avg: "desc" },
+  { created_at: "desc" },
+];
+
+// Dipanggil di transaksi createTransaction: +1 untuk setiap pasangan buku di order ini (dua arah).
+// Pasangan ditulis berurutan id supaya order [A,B] dan [B,A] yang bersamaan tidak deadlock.
+export const recordCoPurchases = async (tx: Prisma.TransactionClient, bookIds: string[]) => {
+  const ids = [...new Set(bookIds)].sort();
+  if (ids.length < 2) return;
+
+  await tx.$executeRaw`
+    INSERT INTO "book_copurchases" ("book_id", "related_book_id", "count", "updated_at")
+    SELECT a, b, 1, now()
+    FROM unnest(${ids}::text[]) a, unnest(${ids}::text[]) b
+    WHERE a <> b
+    ORDER BY a, b
+    ON CONFLICT ("book_id", "related_book_id")
+    DO UPDATE SET "count" = "book_copurchases"."count" + 1, "updated_at" = now()
+  `;
+};
+
+// Lengkapi daftar pilihan dengan buku fallback sampai `limit`
+const fillWith = async (
+  picks: Candidate[],
+  limit: number,
+  reason: RecommendationReason,
+  where: Prisma.booksWhereInput,
+  exclude: string[]
+) => {
+  if (picks.length >= limit) return;
+
+  const books = await prisma.books.findMany({
+    where: { AND: [available, where, { id: { notIn: [...exclude, ...picks.map((pick) => pick.id)] } }] },
+    orderBy: popularOrder,
+    take: limit - picks.length,
+    select: { id: true },
+  });
+
+  picks.push(...books.map((book): Candidate => ({ id: book.id, reason, score: null })));
+};
+
+// Bentuk response sama dengan listing buku (cover & harga efektif) + alasan rekomendasi
+const loadBooks = async (picks: Candidate[]) => {
+  const books = await prisma.books.findMany({
+    where: { id: { in: picks.map((pick) => pick.id) } },
+    include: bookInclude,
+  });
+  const prices = await resolveEffectivePrices(books);
+  const byId = new Map(books.map((book) => [book.id, book]));
+
+  return picks
+    .filter((pick) => byId.has(pick.id))
+    .map((pick) => {
+      const book = byId.get(pick.id);
+      return {
+        ...withCover(book),
+        ...prices.get(book.id),
+        recommendation: { reason: pick.reason, score: pick.score },
+      };
+    });
+};
+
+// "Pembeli buku ini juga membeli": co-purchase terbanyak, fallback buku populer yang berbagi genre.
+// null = buku tidak ditemukan.
+export const recommendForBook = async (bookId: string, limit: number) => {
+  const book = await prisma.books.findFirst({
+    where: { id: bookId, deleted_at: null },
+    select: { id: true, genres: { select: { genre_id: true } } },
+  });
+  if (!book) return null;
+
+  const copurchases = await prisma.book_copurchases.findMany({
+    where: { book_id: bookId, related_book: available },
+    orderBy: [{ count: "desc" }, { related_book_id: "asc" }],
+    take: limit,
+    select: { related_book_id: true, count: true },
+  });
+
+  const picks: Candidate[] = copurchases.map((row) => ({
+    id: row.related_book_id,
+    reason: "co_purchase",
+    score: row.count,
+  }));
+  const genreIds = book.genres.map((link) => link.genre_id);
+  await fillWith(picks, limit, "same_genre", { genres: { some: { genre_id: { in: genreIds } } } }, [
+    bookId,
+  ]);
+
+  return loadBooks(picks);
+};
+
+// Rekomendasi personal dari seluruh buku yang pernah dibeli user (buku yang sudah dibeli tidak ikut).
+// Fallback: genre yang paling sering dibeli user, lalu buku populer.
+export const recommendForUser = async (userId: string, limit: number) => {
+  const purchased = await prisma.order_items.findMany({
+    where: { order: { user_id: userId } },
+    distinct: ["book_id"],
+    select: { book_id: true, book: { select: { genres: { select: { genre_id: true } } } } },
+  });
+  const purchasedIds = purchased.map((item) => item.book_id);
+
+  const picks: Candidate[] = [];
+
+  if (purchasedIds.length > 0) {
+    const groups = await prisma.book_copurchases.groupBy({
+      by: ["related_book_id"],
+      where: {
+        book_id: { in: purchasedIds },
+        related_book_id: { notIn: purchasedIds },
+        related_book: available,
+      },
+      _sum: { count: true },
+      orderBy: [{ _sum: { count: "desc" } }, { related_book_id: "asc" }],
+      take: limit,
+    });
+    picks.push(
+      ...groups.map((group) => ({
+        id: group.related_book_id,
+        reason: "co_purchase" as const,
+        score: group._sum.count ?? 0,
+      }))
+    );
+
+    const genreCounts = new Map<string, number>();
+    for (const item of purchased) {
+      for (const { genre_id } of item.book.genres) {
+        genreCounts.set(genre_id, (genreCounts.get(genre_id) ?? 0) + 1);
+      }
+    }
+    const favoriteGenres = [...genreCounts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([genreId]) => genreId);
+
+    for (const genreId of favoriteGenres) {
+      await fillWith(picks, limit, "same_genre", { genres: { some: { genre_id: genreId } } }, purchasedIds);
+    }
+  }
+
+  await fillWith(picks, limit, "popular", {}, purchasedIds);
+
+  return loadBooks(picks);
+};
@@ -0,0 +1,53 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { ReviewStatus } from "@prisma/client";
+import prisma from "../config/prisma";
+import { hasPurchasedBook, parseRating, refreshBookRating } from "./reviewService";
+
+const original = { reviews: prisma.reviews, books: prisma.books, order_items: prisma.order_items };
+
+afterEach(() => {
+  Object.assign(prisma as any, original);
+});
+
+test("rating hanya bilangan bulat 1 sampai 5", () => {
+  assert.equal(parseRating(5), 5);
+  assert.equal(parseRating("3"), 3);
+  for (const value of [0, 6, 4.5, "lima", null, undefined]) {
+    assert.equal(parseRating(value), null);
+  }
+});
+
+test("rating buku dihitung ulang dari review yang tampil saja", async () => {
+  let aggregateWhere: any;
+  let updated: any;
+  Object.assign(prisma as any, {
+    reviews: {
+      aggregate: async ({ where }: any): Promise<object> => {
+        aggregateWhere = where;
+        return { _avg: { rating: null }, _count: { _all: 0 } };
+      },
+    },
+    books: {
+      update: async (args: any) => {
+        updated = args;
+      },
+    },
+  });
+
+  await refreshBookRating("b1");
+
+  assert.deepEqual(aggregateWhere, { book_id: "b1", status: ReviewStatus.visible, deleted_at: null });
+  // Tanpa review tampil → kembali ke 0, bukan null
+  assert.deepEqual(updated, { where: { id: "b1" }, data: { rating_avg: 0, rating_count: 0 } });
+});
+
+test("hanya user yang punya order untuk buku itu dianggap pembeli", async () => {
+  (prisma as any).order_items = {
+    findFirst: async ({ where }: any) =>
+      where.book_id === "b1" && where.order.user_id === "u1" ? { id: "oi1" } : null,
+  };
+
+  assert.equal(await hasPurchasedBook("u1", "b1"), true);
+  assert.equal(await hasPurchasedBook("u2", "b1"), false);
+});
@@ -0,0 +1,35 @@
+import { ReviewStatus } from "@prisma/client";
+import prisma from "../config/prisma";
+
+// Hitung ulang books.rating_avg & rating_count dari review yang tampil.
+// Dipanggil setiap kali review dibuat, diubah, dimoderasi, atau dihapus.
+export const refreshBookRating = async (bookId: string) => {
+  const summary = await prisma.reviews.aggregate({
+    where: { book_id: bookId, status: ReviewStatus.visible, deleted_at: null },
+    _avg: { rating: true },
+    _count: { _all: true },
+  });
+
+  await prisma.books.update({
+    where: { id: bookId },
+    data: {
+      rating_avg: summary._avg.rating ?? 0,
+      rating_count: summary._count._all,
+    },
+  });
+};
+
+// Hanya pembeli (punya order_items untuk buku ini) yang boleh menulis review
+export const hasPurchasedBook = async (userId: string, bookId: string) => {
+  const item = await prisma.order_items.findFirst({
+    where: { book_id: bookId, order: { user_id: userId } },
+    select: { id: true },
+  });
+  return !!item;
+};
+
+// Rating wajib bilangan bulat 1–5
+export const parseRating = (value: unknown) => {
+  const rating = Number(value);
+  return Number.isInteger(rating) && rating >= 1 && rating <= 5 ? rating : null;
+};
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import prisma from "../config/prisma";
+import { createSession, isSessionActive, rotateSession } from "./sessionService";
+
+const originalSessions = prisma.sessions;
+
+type SessionRow = Record<string, any>;
+let rows: SessionRow[] = [];
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+const matches = (row: SessionRow, where: Record<string, unknown>) =>
+  Object.entries(where).every(([key, value]) => row[key] === value);
+
+// Tabel sessions di memori, cukup untuk query yang dipakai sessionService
+beforeEach(() => {
+  rows = [];
+  (prisma as any).sessions = {
+    create: async ({ data }: any) => {
+      const row = {
+        id: `s${rows.length + 1}`,
+        revoked_at: null,
+        previous_refresh_token_hash: null,
+        ...data,
+      };
+      rows.push(row);
+      return row;
+    },
+    findFirst: async ({ where }: any) => {
+      await tick();
+      const row = rows.find((r) => where.OR.some((cond: any) => matches(r, cond)));
+      return row ? { ...row, user: { id: row.user_id } } : null;
+    },
+    findUnique: async ({ where }: any) => rows.find((r) => r.id === where.id) ?? null,
+    updateMany: async ({ where, data }: any) => {
+      await tick();
+      const hits = rows.filter((r) => matches(r, where));
+      hits.forEach((r) => Object.assign(r, data));
+      return { count: hits.length };
+    },
+  };
+});
+
+afterEach(() => {
+  (prisma as any).sessions = originalSessions;
+});
+
+test("rotasi memberi refresh token baru dan token lama tidak bisa dipakai lagi", async () => {
+  const { session, refreshToken } = await createSession("u1");
+
+  const rotated = await rotateSession(refreshToken);
+  assert.ok(rotated);
+  assert.notEqual(rotated.refreshToken, refreshToken);
+  assert.equal(await isSessionActive(session.id), true);
+
+  // Token lama dipakai ulang → dianggap bocor, sesi dicabut (termasuk token baru)
+  assert.equal(await rotateSession(refreshToken), null);
+  assert.equal(await isSessionActive(session.id), false);
+  assert.equal(await rotateSession(rotated.refreshToken), null);
+});
+
+test("dua refresh bersamaan dengan token yang sama: hanya satu yang menang, sesi dicabut", async () => {
+  const { session, refreshToken } = await createSession("u1");
+
+  const results = await Promise.all([rotateSession(refreshToken), rotateSession(refreshToken)]);
+
+  assert.equal(results.filter(Boolean).length, 1);
+  assert.equal(await isSessionActive(session.id), false);
+});
+
+test("token yang tidak dikenal atau sesi kedaluwarsa ditolak", async () => {
+  assert.equal(await rotateSession("tidak-ada"), null);
+
+  const { session, refreshToken } = await createSession("u1");
+  rows.find((r) => r.id === session.id)!.expires_at = new Date(Date.now() - 1000);
+  assert.equal(await rotateSession(refreshToken), null);
+});
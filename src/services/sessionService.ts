@@ -0,0 +1,90 @@
+import prisma from "../config/prisma";
+import {
+  getRefreshTokenTtlDays,
+  generateOpaqueToken,
+  hashToken,
+} from "../utils/token";
+
+const refreshExpiry = () =>
+  new Date(Date.now() + getRefreshTokenTtlDays() * 24 * 60 * 60 * 1000);
+
+// Buat sesi baru saat login, refresh token mentah hanya dikembalikan sekali
+export const createSession = async (userId: string, twoFactorVerified = false) => {
+  const refreshToken = generateOpaqueToken();
+  const now = new Date();
+
+  const session = await prisma.sessions.create({
+    data: {
+      user_id: userId,
+      refresh_token_hash: hashToken(refreshToken),
+      expires_at: refreshExpiry(),
+      two_factor_verified: twoFactorVerified,
+      created_at: now,
+      updated_at: now,
+    },
+  });
+
+  return { session, refreshToken };
+};
+
+// Tukar refresh token lama dengan yang baru (rotasi). null jika token tidak valid.
+// Token yang sudah pernah dirotasi dipakai lagi → kemungkinan bocor, seluruh sesi dicabut.
+export const rotateSession = async (refreshToken: string) => {
+  const now = new Date();
+  const oldHash = hashToken(refreshToken);
+  const session = await prisma.sessions.findFirst({
+    where: { OR: [{ refresh_token_hash: oldHash }, { previous_refresh_token_hash: oldHash }] },
+    include: { user: true },
+  });
+
+  if (!session || session.revoked_at || session.expires_at <= now) {
+    return null;
+  }
+
+  if (session.refresh_token_hash !== oldHash) {
+    await revokeSession(session.id);
+    return null;
+  }
+
+  // Update bersyarat: dari dua refresh bersamaan dengan token yang sama hanya satu yang menang,
+  // yang kalah dianggap reuse dan sesi dicabut
+  const newRefreshToken = generateOpaqueToken();
+  const { count } = await prisma.sessions.updateMany({
+    where: { id: session.id, refresh_token_hash: oldHash, revoked_at: null },
+    data: {
+      refresh_token_hash: hashToken(newRefreshToken),
+      previous_refresh_token_hash: oldHash,
+      expires_at: refreshExpiry(),
+      updated_at: now,
+    },
+  });
+
+  if (count === 0) {
+    await revokeSession(session.id);
+    return null;
+  }
+
+  const updated = await prisma.sessions.findUnique({ where: { id: session.id } });
+  return { session: updated, user: session.user, refreshToken: newRefreshToken };
+};
+
+export const isSessionActive = async (sessionId: string) => {
+  const session = await prisma.sessions.findUnique({
+    where: { id: sessionId },
+  });
+
+  return !!session && !session.revoked_at && session.expires_at > new Date();
+};
+
+export const revokeSession = (sessionId: string) =>
+  prisma.sessions.updateMany({
+    where: { id: sessionId, revoked_at: null },
+    data: { revoked_at: new Date(), updated_at: new Date() },
+  });
+
+// Logout dari semua perangkat
+export const revokeAllSessions = (userId: string) =>
+  prisma.sessions.updateMany({
+    where: { user_id: userId, revoked_at: null },
+    data: { revoked_at: new Date(), updated_at: new Date() },
+  });
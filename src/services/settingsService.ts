@@ -0,0 +1,23 @@
+import { Prisma, Role } from "@prisma/client";
+import prisma from "../config/prisma";
+
+const TWO_FACTOR_REQUIRED_ROLES = "two_factor_required_roles";
+
+export const getSetting = async <T>(key: string, fallback: T): Promise<T> => {
+  const setting = await prisma.app_settings.findUnique({ where: { key } });
+  return setting ? (setting.value as T) : fallback;
+};
+
+export const setSetting = (key: string, value: Prisma.InputJsonValue) =>
+  prisma.app_settings.upsert({
+    where: { key },
+    create: { key, value, updated_at: new Date() },
+    update: { value, updated_at: new Date() },
+  });
+
+// Role yang wajib memakai 2FA (diatur admin)
+export const getTwoFactorRequiredRoles = () =>
+  getSetting<Role[]>(TWO_FACTOR_REQUIRED_ROLES, []);
+
+export const setTwoFactorRequiredRoles = (roles: Role[]) =>
+  setSetting(TWO_FACTOR_REQUIRED_ROLES, roles);
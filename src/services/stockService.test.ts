@@ -0,0 +1,95 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Prisma, StockMovementType } from "@prisma/client";
+import { HttpError } from "../utils/httpError";
+import { recordStockMovement, setStockLevel } from "./stockService";
+
+// Transaction client palsu dengan satu buku di memori
+const fakeTx = (stock: number) => {
+  const book = {
+    id: "b1",
+    title: "Clean Code",
+    stock_quantity: stock,
+    reorder_threshold: 0,
+    deleted_at: null as Date | null,
+    genre: { default_reorder_threshold: null as number | null },
+  };
+  const movements: any[] = [];
+  const tx = {
+    books: {
+      updateMany: async ({ where, data }: any) => {
+        if (where.id !== book.id || book.stock_quantity < (where.stock_quantity?.gte ?? -Infinity)) {
+          return { count: 0 };
+        }
+        book.stock_quantity += data.stock_quantity.increment;
+        return { count: 1 };
+      },
+      findUnique: async ({ where }: any) => (where.id === book.id ? { ...book } : null),
+    },
+    stock_movements: {
+      create: async ({ data }: any) => {
+        movements.push(data);
+        return data;
+      },
+    },
+    notifications: { create: async ({ data }: any) => data },
+  };
+  return { tx: tx as unknown as Prisma.TransactionClient, book, movements };
+};
+
+test("pergerakan stok mengubah saldo dan mencatat balance_after", async () => {
+  const { tx, book, movements } = fakeTx(10);
+
+  await recordStockMovement(tx, {
+    book_id: "b1",
+    type: StockMovementType.sale,
+    quantity: -3,
+    order_id: "o1",
+  });
+
+  assert.equal(book.stock_quantity, 7);
+  assert.equal(movements.length, 1);
+  assert.equal(movements[0].quantity, -3);
+  assert.equal(movements[0].balance_after, 7);
+  assert.equal(movements[0].order_id, "o1");
+  assert.equal(movements[0].reason, null);
+});
+
+test("stok keluar melebihi saldo ditolak tanpa menulis ledger", async () => {
+  const { tx, book, movements } = fakeTx(2);
+
+  await assert.rejects(
+    recordStockMovement(tx, { book_id: "b1", type: StockMovementType.write_off, quantity: -5 }),
+    (err) => err instanceof HttpError && err.status === 400 && /tersisa 2, dibutuhkan 5/.test(err.message)
+  );
+  assert.equal(book.stock_quantity, 2);
+  assert.deepEqual(movements, []);
+});
+
+test("quantity 0, pecahan, atau buku tidak ada ditolak", async () => {
+  const { tx } = fakeTx(5);
+
+  for (const quantity of [0, 1.5]) {
+    await assert.rejects(
+      recordStockMovement(tx, { book_id: "b1", type: StockMovementType.restock, quantity }),
+      (err) => err instanceof HttpError && err.status === 400
+    );
+  }
+  await assert.rejects(
+    recordStockMovement(tx, { book_id: "b2", type: StockMovementType.restock, quantity: 1 }),
+    (err) => err instanceof HttpError && err.status === 404
+  );
+});
+
+test("set stok dicatat sebagai selisih, tidak mencatat apa pun jika sama", async () => {
+  const { tx, book, movements } = fakeTx(4);
+
+  assert.equal(await setStockLevel(tx, "b1", 4, StockMovementType.adjustment, null, "u1"), null);
+  await setStockLevel(tx, "b1", 9, StockMovementType.adjustment, "stock opname", "u1");
+
+  assert.equal(book.stock_quantity, 9);
+  assert.equal(movements.length, 1);
+  assert.equal(movements[0].quantity, 5);
+  assert.equal(movements[0].reason, "stock opname");
+  assert.equal(movements[0].created_by, "u1");
+});
@@ -0,0 +1,137 @@
+import { Prisma, StockMovementType } from "@prisma/client";
+import prisma from "../config/prisma";
+import { HttpError } from "../utils/httpError";
+import { checkLowStock } from "./inventoryAlertService";
+
+export interface StockMovementInput {
+  book_id: string;
+  type: StockMovementType;
+  // Bertanda: + stok masuk, - stok keluar
+  quantity: number;
+  reason?: string | null;
+  order_id?: string | null;
+  created_by?: string | null;
+}
+
+// Tipe yang boleh diposting manual lewat endpoint (sale & initial hanya dari sistem)
+export const MANUAL_MOVEMENT_TYPES: StockMovementType[] = [
+  StockMovementType.restock,
+  StockMovementType.return,
+  StockMovementType.adjustment,
+  StockMovementType.write_off,
+];
+
+// Satu-satunya jalan mengubah books.stock_quantity: saldo & entri ledger ditulis di transaksi yang sama.
+// Update bersyarat (stock_quantity >= jumlah keluar) mencegah stok minus saat ada order bersamaan.
+export const recordStockMovement = async (
+  tx: Prisma.TransactionClient,
+  input: StockMovementInput
+) => {
+  if (!Number.isInteger(input.quantity) || input.quantity === 0) {
+    throw new HttpError(400, "quantity pergerakan stok harus bilangan bulat dan tidak boleh 0.");
+  }
+
+  const { count } = await tx.books.updateMany({
+    where: {
+      id: input.book_id,
+      ...(input.quantity < 0 ? { stock_quantity: { gte: -input.quantity } } : {}),
+    },
+    data: { stock_quantity: { increment: input.quantity } },
+  });
+
+  if (count === 0) {
+    const book = await tx.books.findUnique({
+      where: { id: input.book_id },
+      select: { title: true, stock_quantity: true },
+    });
+    if (!book) throw new HttpError(404, "Buku tidak ditemukan.");
+    throw new HttpError(
+      400,
+      `Stok "${book.title}" tidak cukup (tersisa ${book.stock_quantity}, dibutuhkan ${-input.quantity}).`
+    );
+  }
+
+  const { stock_quantity } = await tx.books.findUnique({
+    where: { id: input.book_id },
+    select: { stock_quantity: true },
+  });
+
+  await checkLowStock(tx, input.book_id, stock_quantity - input.quantity, stock_quantity);
+
+  return tx.stock_movements.create({
+    data: {
+      book_id: input.book_id,
+      type: input.type,
+      quantity: input.quantity,
+      balance_after: stock_quantity,
+      reason: input.reason ?? null,
+      order_id: input.order_id ?? null,
+      created_by: input.created_by ?? null,
+      created_at: new Date(),
+    },
+  });
+};
+
+// Set stok ke angka tertentu (updateBook, restore, import) → dicatat sebagai selisih
+export const setStockLevel = async (
+  tx: Prisma.TransactionClient,
+  bookId: string,
+  target: number,
+  type: StockMovementType,
+  reason: string | null,
+  createdBy: string | null
+) => {
+  const { stock_quantity } = await tx.books.findUnique({
+    where: { id: bookId },
+    select: { stock_quantity: true },
+  });
+  if (stock_quantity === target) return null;
+
+  return recordStockMovement(tx, {
+    book_id: bookId,
+    type,
+    quantity: target - stock_quantity,
+    reason,
+    created_by: createdBy,
+  });
+};
+
+// Nested create untuk entri ledger pertama saat buku dibuat
+export const initialStockEntry = (quantity: number, createdBy: string | null) => ({
+  create: {
+    type: StockMovementType.initial,
+    quantity,
+    balance_after: quantity,
+    created_by: createdBy,
+    created_at: new Date(),
+  },
+});
+
+// Bandingkan books.stock_quantity dengan total ledger. apply=true → saldo buku disamakan dengan ledger.
+export const reconcileStock = async (apply = false) => {
+  const [books, totals] = await Promise.all([
+    prisma.books.findMany({ select: { id: true, title: true, stock_quantity: true } }),
+    prisma.stock_movements.groupBy({ by: ["book_id"], _sum: { quantity: true } }),
+  ]);
+  const ledger = new Map(totals.map((total) => [total.book_id, total._sum.quantity ?? 0]));
+
+  const mismatches = books
+    .map((book) => ({
+      book_id: book.id,
+      title: book.title,
+      stock_quantity: book.stock_quantity,
+      ledger_quantity: ledger.get(book.id) ?? 0,
+    }))
+    .filter((row) => row.stock_quantity !== row.ledger_quantity);
+
+  if (apply) {
+    for (const row of mismatches) {
+      await prisma.books.update({
+        where: { id: row.book_id },
+        data: { stock_quantity: row.ledger_quantity },
+      });
+    }
+  }
+
+  return { checked: books.length, applied: apply, mismatches };
+};
@@ -0,0 +1,49 @@
+import fs from "fs/promises";
+import path from "path";
+
+// Kontrak penyimpanan file (cover buku, dll). Backend lain (S3, GCS) cukup memenuhi interface ini
+// lalu didaftarkan lewat setFileStorage().
+export interface FileStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  // URL publik untuk key tersebut
+  url(key: string): string;
+}
+
+// Folder file lokal, disajikan di /files oleh index.ts
+export const LOCAL_STORAGE_DIR = path.resolve(process.env.LOCAL_STORAGE_DIR || "uploads");
+export const LOCAL_FILES_PATH = "/files";
+
+const resolveLocalPath = (key: string) => {
+  const target = path.resolve(LOCAL_STORAGE_DIR, key);
+  // Cegah key seperti "../../etc/passwd" keluar dari folder storage
+  if (!target.startsWith(LOCAL_STORAGE_DIR + path.sep)) {
+    throw new Error(`Key storage tidak valid: ${key}`);
+  }
+  return target;
+};
+
+// Default: filesystem lokal. PUBLIC_BASE_URL dipakai jika URL harus absolut (mis. lewat CDN).
+export const localFileStorage: FileStorage = {
+  async put(key, data) {
+    const target = resolveLocalPath(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, data);
+  },
+
+  async delete(key) {
+    await fs.rm(resolveLocalPath(key), { force: true });
+  },
+
+  url(key) {
+    return `${process.env.PUBLIC_BASE_URL || ""}${LOCAL_FILES_PATH}/${key}`;
+  },
+};
+
+let storage: FileStorage = localFileStorage;
+
+export const getFileStorage = () => storage;
+
+export const setFileStorage = (next: FileStorage) => {
+  storage = next;
+};
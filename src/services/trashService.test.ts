@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import prisma from "../config/prisma";
+import { HttpError } from "../utils/httpError";
+import { purgeExpiredTrash, restoreBook, restoreGenre } from "./trashService";
+
+const delegates = [
+  "books",
+  "genres",
+  "order_items",
+  "book_authors",
+  "book_genres",
+  "book_copurchases",
+  "reviews",
+  "price_history",
+  "stock_movements",
+  "sales",
+  "notifications",
+] as const;
+const original: Record<string, unknown> = Object.fromEntries(
+  [...delegates, "$transaction"].map((name) => [name, (prisma as any)[name]])
+);
+
+let deleted: string[];
+
+beforeEach(() => {
+  deleted = [];
+  // Error purge hanya di-log, jangan kotori output test
+  mock.method(console, "error", (): void => undefined);
+  for (const name of delegates) {
+    (prisma as any)[name] = {
+      deleteMany: async () => ({ count: 0 }),
+      updateMany: async () => ({ count: 0 }),
+      delete: async ({ where }: any) => deleted.push(`${name}:${where.id}`),
+    };
+  }
+  (prisma as any).$transaction = async (operations: Promise<unknown>[]) => Promise.all(operations);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  Object.assign(prisma as any, original);
+});
+
+const trashedAt = new Date("2025-01-01T00:00:00.000Z");
+
+test("buku tidak dipulihkan selama genre-nya masih di trash", async () => {
+  prisma.books.findFirst = (async () => ({
+    id: "b1",
+    isbn_13: "9780132350884",
+    genre: { name: "Teknologi", deleted_at: trashedAt },
+  })) as any;
+
+  await assert.rejects(
+    restoreBook("b1"),
+    (err) => err instanceof HttpError && err.status === 409 && /Pulihkan genre/.test(err.message)
+  );
+});
+
+test("genre dipulihkan sebagai level teratas jika induknya sudah dihapus", async () => {
+  let data: any;
+  Object.assign(prisma.genres, {
+    findFirst: async () => ({ id: "g2", parent_id: "g1", parent: { deleted_at: trashedAt } }),
+    update: async (args: any) => (data = args.data),
+  });
+
+  await restoreGenre("g2");
+  assert.equal(data.parent_id, null);
+  assert.equal(data.deleted_at, null);
+});
+
+test("purge otomatis mencatat record yang gagal dan tetap memproses sisanya", async () => {
+  Object.assign(prisma.books, {
+    findMany: async () => [{ id: "b1" }, { id: "b2" }],
+    findFirst: async ({ where }: any): Promise<object> => ({ id: where.id, cover_path: null }),
+  });
+  // b1 sempat dipesan setelah dipilih untuk dihapus
+  prisma.order_items.count = (async ({ where }: any) => (where.book_id === "b1" ? 1 : 0)) as any;
+  Object.assign(prisma.genres, {
+    findMany: async () => [{ id: "g1" }],
+    findFirst: async ({ where }: any): Promise<object> => ({ id: where.id }),
+    count: async () => 1,
+  });
+
+  const result = await purgeExpiredTrash(30);
+
+  assert.equal(result.purged_books, 1);
+  assert.equal(result.purged_genres, 1);
+  assert.deepEqual(deleted, ["books:b2", "genres:g1"]);
+  assert.equal(result.failures.length, 1);
+  assert.equal(result.failures[0].type, "book");
+  assert.equal(result.failures[0].id, "b1");
+  assert.match(result.failures[0].error, /tercatat di transaksi/);
+});
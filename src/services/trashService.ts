@@ -0,0 +1,214 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import { HttpError } from "../utils/httpError";
+import { deleteCover } from "./coverService";
+
+// Buku & genre di trash (soft delete) dihapus permanen otomatis setelah sekian hari. 0 = nonaktif.
+// Nilai env tidak valid (bukan bilangan bulat >= 0) → default 30 dengan peringatan di log.
+const parseRetentionDays = (value: string | undefined) => {
+  if (value === undefined || value.trim() === "") return 30;
+  const days = Number(value);
+  if (Number.isInteger(days) && days >= 0) return days;
+  console.warn(`TRASH_RETENTION_DAYS tidak valid ("${value}"), memakai default 30 hari.`);
+  return 30;
+};
+
+export const TRASH_RETENTION_DAYS = parseRetentionDays(process.env.TRASH_RETENTION_DAYS);
+
+// Seberapa sering job retensi berjalan
+const TRASH_PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Buku yang pernah dipesan tidak pernah dihapus permanen (order_items tetap butuh datanya)
+export const purgeableBookWhere: Prisma.booksWhereInput = {
+  NOT: { deleted_at: null },
+  order_items: { none: {} },
+};
+
+// Genre hanya bisa dihapus permanen jika tidak dipakai buku mana pun (termasuk buku di trash)
+export const purgeableGenreWhere: Prisma.genresWhereInput = {
+  NOT: { deleted_at: null },
+  books: { none: {} },
+  book_links: { none: {} },
+};
+
+// Tanggal buku/genre di trash akan dihapus otomatis (null jika retensi nonaktif)
+export const purgeAt = (deletedAt: Date) =>
+  TRASH_RETENTION_DAYS > 0
+    ? new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+    : null;
+
+// Pulihkan buku dari trash apa adanya (stok, harga & relasi tidak diubah)
+export const restoreBook = async (bookId: string) => {
+  const book = await prisma.books.findFirst({
+    where: { id: bookId, NOT: { deleted_at: null } },
+    include: { genre: true },
+  });
+  if (!book) throw new HttpError(404, "Buku tidak ditemukan di trash.");
+
+  if (book.genre.deleted_at) {
+    throw new HttpError(409, `Genre "${book.genre.name}" sudah dihapus. Pulihkan genre terlebih dahulu.`);
+  }
+
+  // Buku tanpa ISBN diidentifikasi lewat judul, jadi tidak boleh bentrok dengan buku aktif
+  if (!book.isbn_13) {
+    const duplicate = await prisma.books.findFirst({
+      where: { title: book.title, isbn_13: null, deleted_at: null },
+    });
+    if (duplicate) throw new HttpError(409, "Buku dengan judul ini sudah ada (aktif).");
+  }
+
+  return prisma.books.update({
+    where: { id: bookId },
+    data: { deleted_at: null, updated_at: new Date() },
+  });
+};
+
+// Pulihkan genre dari trash. Jika induknya sudah dihapus, genre kembali sebagai level teratas.
+export const restoreGenre = async (genreId: string) => {
+  const genre = await prisma.genres.findFirst({
+    where: { id: genreId, NOT: { deleted_at: null } },
+    include: { parent: true },
+  });
+  if (!genre) throw new HttpError(404, "Genre tidak ditemukan di trash.");
+
+  return prisma.genres.update({
+    where: { id: genreId },
+    data: {
+      deleted_at: null,
+      parent_id: genre.parent && !genre.parent.deleted_at ? genre.parent_id : null,
+      updated_at: new Date(),
+    },
+  });
+};
+
+// Hapus permanen satu buku beserta data turunannya (penulis, genre, riwayat harga, ledger stok, promo, cover)
+export const purgeBook = async (bookId: string) => {
+  const book = await prisma.books.findFirst({ where: { id: bookId, NOT: { deleted_at: null } } });
+  if (!book) throw new HttpError(404, "Buku tidak ditemukan di trash.");
+
+  const orderItems = await prisma.order_items.count({ where: { book_id: bookId } });
+  if (orderItems > 0) {
+    throw new HttpError(409, "Buku tidak dapat dihapus permanen karena tercatat di transaksi.");
+  }
+
+  await prisma.$transaction([
+    prisma.book_authors.deleteMany({ where: { book_id: bookId } }),
+    prisma.book_genres.deleteMany({ where: { book_id: bookId } }),
+    prisma.book_copurchases.deleteMany({
+      where: { OR: [{ book_id: bookId }, { related_book_id: bookId }] },
+    }),
+    prisma.reviews.deleteMany({ where: { book_id: bookId } }),
+    prisma.price_history.deleteMany({ where: { book_id: bookId } }),
+    prisma.stock_movements.deleteMany({ where: { book_id: bookId } }),
+    prisma.sales.deleteMany({ where: { book_id: bookId } }),
+    prisma.notifications.deleteMany({ where: { book_id: bookId } }),
+    prisma.books.delete({ where: { id: bookId } }),
+  ]);
+
+  // File cover dihapus terakhir: kalau gagal, yang tersisa hanya file yatim di storage
+  if (book.cover_path) {
+    await deleteCover(book.cover_path).catch((err) => console.error(err));
+  }
+
+  return book;
+};
+
+// Hapus permanen satu genre beserta promo genre-nya. Subgenre (di trash) kehilangan induk.
+export const purgeGenre = async (genreId: string) => {
+  const genre = await prisma.genres.findFirst({ where: { id: genreId, NOT: { deleted_at: null } } });
+  if (!genre) throw new HttpError(404, "Genre tidak ditemukan di trash.");
+
+  const purgeable = await prisma.genres.count({ where: { id: genreId, ...purgeableGenreWhere } });
+  if (purgeable === 0) {
+    throw new HttpError(409, "Genre tidak dapat dihapus permanen karena masih dipakai oleh buku.");
+  }
+
+  await prisma.$transaction([
+    prisma.genres.updateMany({ where: { parent_id: genreId }, data: { parent_id: null } }),
+    prisma.sales.deleteMany({ where: { genre_id: genreId } }),
+    prisma.genres.delete({ where: { id: genreId } }),
+  ]);
+
+  return genre;
+};
+
+interface PurgeFailure {
+  type: "book" | "genre";
+  id: string;
+  error: string;
+}
+
+// Hapus permanen semua buku & genre yang sudah melewati masa retensi.
+// Buku lebih dulu, karena buku yang terhapus bisa membuat genre-nya ikut bisa dihapus.
+// Satu record yang gagal dicatat di failures, sisanya tetap diproses.
+export const purgeExpiredTrash = async (retentionDays = TRASH_RETENTION_DAYS) => {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const failures: PurgeFailure[] = [];
+
+  const purgeEach = async (
+    type: PurgeFailure["type"],
+    ids: string[],
+    purge: (id: string) => Promise<unknown>
+  ) => {
+    let purged = 0;
+    for (const id of ids) {
+      try {
+        await purge(id);
+        purged += 1;
+      } catch (err) {
+        console.error(err);
+        failures.push({ type, id, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+    return purged;
+  };
+
+  const books = await prisma.books.findMany({
+    where: { ...purgeableBookWhere, deleted_at: { lt: cutoff } },
+    select: { id: true },
+  });
+  const purgedBooks = await purgeEach(
+    "book",
+    books.map((book) => book.id),
+    purgeBook
+  );
+
+  const genres = await prisma.genres.findMany({
+    where: { ...purgeableGenreWhere, deleted_at: { lt: cutoff } },
+    select: { id: true },
+  });
+  const purgedGenres = await purgeEach(
+    "genre",
+    genres.map((genre) => genre.id),
+    purgeGenre
+  );
+
+  return {
+    retention_days: retentionDays,
+    cutoff,
+    purged_books: purgedBooks,
+    purged_genres: purgedGenres,
+    failures,
+  };
+};
+
+// Dijalankan sekali saat server start lalu tiap hari. Error hanya di-log supaya server tetap jalan.
+export const startTrashPurgeJob = () => {
+  if (TRASH_RETENTION_DAYS <= 0) return null;
+
+  const run = () =>
+    purgeExpiredTrash()
+      .then((result) => {
+        if (result.purged_books > 0 || result.purged_genres > 0 || result.failures.length > 0) {
+          console.log(
+            `Trash: ${result.purged_books} buku & ${result.purged_genres} genre dihapus permanen, ${result.failures.length} gagal.`
+          );
+        }
+      })
+      .catch((err) => console.error(err));
+
+  run();
+  const timer = setInterval(run, TRASH_PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
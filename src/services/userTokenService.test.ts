@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { TokenPurpose } from "@prisma/client";
+import prisma from "../config/prisma";
+import { consumeUserToken, issueUserToken } from "./userTokenService";
+
+const original = { user_tokens: prisma.user_tokens, $transaction: prisma.$transaction };
+
+type TokenRow = Record<string, any>;
+let rows: TokenRow[] = [];
+
+// Kondisi where sederhana: nilai persis, atau { gt: Date }
+const matches = (row: TokenRow, where: Record<string, any>) =>
+  Object.entries(where).every(([key, value]) =>
+    value && typeof value === "object" && "gt" in value ? row[key] > value.gt : row[key] === value
+  );
+
+beforeEach(() => {
+  rows = [];
+  Object.assign(prisma as any, {
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+    user_tokens: {
+      create: async ({ data }: any) => {
+        rows.push({ used_at: null, ...data });
+      },
+      updateMany: async ({ where, data }: any) => {
+        const hits = rows.filter((row) => matches(row, where));
+        hits.forEach((row) => Object.assign(row, data));
+        return { count: hits.length };
+      },
+      findUnique: async ({ where }: any) =>
+        rows.find((row) => row.token_hash === where.token_hash) ?? null,
+    },
+  });
+});
+
+afterEach(() => {
+  Object.assign(prisma as any, original);
+});
+
+const HOUR = 60 * 60 * 1000;
+
+test("token reset password hanya bisa dipakai sekali", async () => {
+  const token = await issueUserToken("u1", TokenPurpose.password_reset, HOUR);
+
+  const used = await consumeUserToken(token, TokenPurpose.password_reset);
+  assert.equal(used?.user_id, "u1");
+  assert.equal(await consumeUserToken(token, TokenPurpose.password_reset), null);
+});
+
+test("token baru membatalkan token lama dengan tujuan yang sama", async () => {
+  const first = await issueUserToken("u1", TokenPurpose.password_reset, HOUR);
+  const second = await issueUserToken("u1", TokenPurpose.password_reset, HOUR);
+
+  assert.equal(await consumeUserToken(first, TokenPurpose.password_reset), null);
+  assert.ok(await consumeUserToken(second, TokenPurpose.password_reset));
+});
+
+test("token kedaluwarsa ditolak", async () => {
+  const token = await issueUserToken("u1", TokenPurpose.password_reset, -1);
+  assert.equal(await consumeUserToken(token, TokenPurpose.password_reset), null);
+});
+
+test("token verifikasi email tidak bisa dipakai untuk tujuan lain, dan sebaliknya", async () => {
+  const verification = await issueUserToken("u1", TokenPurpose.email_verification, HOUR);
+  const reset = await issueUserToken("u1", TokenPurpose.password_reset, HOUR);
+
+  assert.equal(await consumeUserToken(verification, TokenPurpose.password_reset), null);
+  assert.equal(await consumeUserToken(reset, TokenPurpose.email_verification), null);
+  assert.ok(await consumeUserToken(verification, TokenPurpose.email_verification));
+});
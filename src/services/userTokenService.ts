@@ -0,0 +1,52 @@
+import { TokenPurpose } from "@prisma/client";
+import prisma from "../config/prisma";
+import { generateOpaqueToken, hashToken } from "../utils/token";
+
+// Terbitkan token sekali pakai. Token lama dengan tujuan sama yang belum dipakai ikut dibatalkan.
+export const issueUserToken = async (
+  userId: string,
+  purpose: TokenPurpose,
+  ttlMs: number
+) => {
+  const token = generateOpaqueToken();
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.user_tokens.updateMany({
+      where: { user_id: userId, purpose, used_at: null },
+      data: { used_at: now },
+    }),
+    prisma.user_tokens.create({
+      data: {
+        user_id: userId,
+        purpose,
+        token_hash: hashToken(token),
+        expires_at: new Date(now.getTime() + ttlMs),
+        created_at: now,
+      },
+    }),
+  ]);
+
+  return token;
+};
+
+// Tandai token sebagai terpakai. null jika token tidak ada, sudah dipakai, atau kedaluwarsa.
+export const consumeUserToken = async (token: string, purpose: TokenPurpose) => {
+  const now = new Date();
+  const tokenHash = hashToken(token);
+
+  // updateMany bersyarat → aman dari pemakaian ganda secara bersamaan
+  const { count } = await prisma.user_tokens.updateMany({
+    where: {
+      token_hash: tokenHash,
+      purpose,
+      used_at: null,
+      expires_at: { gt: now },
+    },
+    data: { used_at: now },
+  });
+
+  if (count === 0) return null;
+
+  return prisma.user_tokens.findUnique({ where: { token_hash: tokenHash } });
+};
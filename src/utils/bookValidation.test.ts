@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseImportFile } from "../services/bookImportService";
+import { parseGenreIds, validateBookInput, withPrimaryGenre } from "./bookValidation";
+
+const csvRow = (overrides: Record<string, string>) => {
+  const row: Record<string, string> = {
+    title: "Clean Code",
+    writer: "Robert C. Martin",
+    publisher: "Prentice Hall",
+    publication_year: "2008",
+    price: "150000",
+    stock_quantity: "10",
+    genre_id: "genre-1",
+    ...overrides,
+  };
+  const header = Object.keys(row).join(",");
+  const values = Object.values(row).join(",");
+  return parseImportFile(Buffer.from(`${header}\n${values}\n`), "csv")[0];
+};
+
+test("baris CSV lengkap lolos validasi", () => {
+  const result = validateBookInput(csvRow({}));
+  assert.equal(result.error, undefined);
+  assert.equal(result.data.price, 150000);
+});
+
+for (const field of ["price", "publication_year", "stock_quantity"]) {
+  test(`sel CSV ${field} kosong ditolak (bukan dianggap 0)`, () => {
+    assert.match(validateBookInput(csvRow({ [field]: "" })).error ?? "", /wajib diisi/);
+    assert.match(validateBookInput(csvRow({ [field]: "   " })).error ?? "", /wajib diisi/);
+  });
+}
+
+test("reorder_threshold yang tidak diisi tidak menimpa ambang yang sudah ada", () => {
+  assert.equal(validateBookInput(csvRow({})).data.reorder_threshold, undefined);
+  assert.equal(validateBookInput(csvRow({ reorder_threshold: "" })).data.reorder_threshold, undefined);
+  assert.equal(validateBookInput(csvRow({ reorder_threshold: "3" })).data.reorder_threshold, 3);
+});
+
+test("genre_ids dari array atau kolom CSV dipisah koma", () => {
+  assert.deepEqual(parseGenreIds(["g1", " g2 "]), ["g1", "g2"]);
+  assert.deepEqual(parseGenreIds("g1, g2,,"), ["g1", "g2"]);
+  assert.deepEqual(parseGenreIds(""), []);
+  assert.equal(parseGenreIds([1, 2]), undefined);
+  assert.equal(parseGenreIds({ id: "g1" }), undefined);
+});
+
+test("genre utama selalu pertama di daftar genre tanpa duplikat", () => {
+  assert.deepEqual(withPrimaryGenre("g2", ["g1", "g2", "g3"]), ["g2", "g1", "g3"]);
+
+  const result = validateBookInput(csvRow({ genre_id: "", genre_ids: '"devops,cloud"' }));
+  assert.equal(result.data.genre_id, "devops");
+  assert.deepEqual(result.genre_ids, ["devops", "cloud"]);
+
+  assert.match(validateBookInput({ ...csvRow({}), genre_ids: 7 }).error ?? "", /genre_ids/);
+});
@@ -0,0 +1,167 @@
+import { Prisma } from "@prisma/client";
+import { parseIsbn } from "./isbn";
+
+// writer & publisher tidak ada di sini: keduanya di-resolve ke entitas authors / publishers
+// lewat contributorService karena butuh query database.
+export interface BookInput {
+  title: string;
+  isbn_13: string | null;
+  isbn_10: string | null;
+  description: string | null;
+  publication_year: number;
+  price: number;
+  stock_quantity: number;
+  // undefined = tidak diisi (nilai yang sudah ada dipertahankan saat update / restore)
+  reorder_threshold?: number | null;
+  genre_id: string;
+}
+
+export interface AuthorCreditInput {
+  author_id?: string;
+  name?: string;
+  role?: string;
+}
+
+export interface ContributorInput {
+  writer?: string;
+  authors?: AuthorCreditInput[];
+  publisher?: string;
+  publisher_id?: string;
+}
+
+type BookValidationResult =
+  | { data: BookInput; contributors: ContributorInput; genre_ids: string[]; error?: never }
+  | { data?: never; contributors?: never; genre_ids?: never; error: string };
+
+// Aturan validasi buku baru, dipakai createBook dan import massal.
+// Keberadaan genre dicek terpisah oleh pemanggil karena butuh query database.
+// genre_ids = semua genre buku; genre utama = genre_id, atau genre_ids pertama jika genre_id kosong.
+export const validateBookInput = (body: any): BookValidationResult => {
+  const {
+    title,
+    writer,
+    authors,
+    publisher,
+    publisher_id,
+    description,
+    publication_year,
+    price,
+    stock_quantity,
+    reorder_threshold,
+    genre_id,
+    genre_ids,
+    isbn,
+  } = body;
+
+  const genreIds = parseGenreIds(genre_ids);
+  if (genreIds === undefined) {
+    return { error: "genre_ids harus berupa array id genre." };
+  }
+  const primaryGenreId = genre_id || genreIds[0];
+
+  // 🔹 Validasi field wajib
+  if (
+    !title ||
+    (!writer && !authors) ||
+    (!publisher && !publisher_id) ||
+    isBlank(publication_year) ||
+    isBlank(price) ||
+    isBlank(stock_quantity) ||
+    !primaryGenreId
+  ) {
+    return {
+      error:
+        "Field title, writer (atau authors), publisher (atau publisher_id), publication_year, price, stock_quantity, dan genre_id (atau genre_ids) wajib diisi.",
+    };
+  }
+
+  // 🔹 Validasi tipe number
+  const pubYear = Number(publication_year);
+  const bookPrice = Number(price);
+  const stockQty = Number(stock_quantity);
+
+  if (Number.isNaN(pubYear) || Number.isNaN(bookPrice) || Number.isNaN(stockQty)) {
+    return { error: "publication_year, price, dan stock_quantity harus berupa number." };
+  }
+
+  // 🔹 Validasi harga dan stok tidak boleh minus & stok harus bilangan bulat
+  if (bookPrice < 0) {
+    return { error: "price tidak boleh bernilai negatif." };
+  }
+
+  if (stockQty < 0 || !Number.isInteger(stockQty)) {
+    return { error: "stock_quantity harus bilangan bulat dan tidak boleh negatif." };
+  }
+
+  // 🔹 Validasi tahun
+  const thisYear = new Date().getFullYear();
+  if (pubYear < 0 || pubYear > thisYear + 1) {
+    return { error: "publication_year tidak valid." };
+  }
+
+  // 🔹 Validasi ambang reorder (opsional). Kolom tidak ada / sel kosong → tidak diubah,
+  // null → ikut default genre
+  let threshold: number | null | undefined;
+  if (reorder_threshold === null) {
+    threshold = null;
+  } else if (!isBlank(reorder_threshold)) {
+    threshold = parseReorderThreshold(reorder_threshold);
+    if (threshold === undefined) {
+      return { error: "reorder_threshold harus bilangan bulat dan tidak boleh negatif." };
+    }
+  }
+
+  // 🔹 Validasi ISBN (opsional), ISBN-10 dikonversi ke ISBN-13
+  let isbnFields: Pick<BookInput, "isbn_13" | "isbn_10"> = { isbn_13: null, isbn_10: null };
+  if (isbn) {
+    isbnFields = parseIsbn(isbn);
+    if (!isbnFields) {
+      return { error: "isbn tidak valid (format atau checksum salah)." };
+    }
+  }
+
+  return {
+    data: {
+      title,
+      ...isbnFields,
+      description: description || null,
+      publication_year: pubYear,
+      price: bookPrice,
+      stock_quantity: stockQty,
+      reorder_threshold: threshold,
+      genre_id: primaryGenreId,
+    },
+    contributors: { writer, authors, publisher, publisher_id },
+    genre_ids: withPrimaryGenre(primaryGenreId, genreIds),
+  };
+};
+
+// Sel CSV kosong datang sebagai "" dan Number("") === 0, jadi harus dianggap tidak diisi
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+
+// Array id, atau string dipisah koma (kolom CSV). Kosong → [], tidak valid → undefined.
+export const parseGenreIds = (value: unknown): string[] | undefined => {
+  if (value === undefined || value === null || value === "") return [];
+  const ids = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(ids) || ids.some((id) => typeof id !== "string")) return undefined;
+  return ids.map((id: string) => id.trim()).filter(Boolean);
+};
+
+// Genre utama selalu ikut di daftar genre, di posisi pertama, tanpa duplikat
+export const withPrimaryGenre = (primaryGenreId: string, genreIds: string[]) => [
+  ...new Set([primaryGenreId, ...genreIds]),
+];
+
+// null / "" → null (pakai default), angka valid → angka, selain itu undefined (tidak valid)
+export const parseReorderThreshold = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return null;
+  const threshold = Number(value);
+  return Number.isInteger(threshold) && threshold >= 0 ? threshold : undefined;
+};
+
+// Kunci pencarian buku yang "sama": ISBN jika ada, jika tidak judul tanpa ISBN
+export const bookIdentityWhere = (
+  input: Pick<BookInput, "title" | "isbn_13">
+): Prisma.booksWhereInput =>
+  input.isbn_13 ? { isbn_13: input.isbn_13 } : { title: input.title, isbn_13: null };
@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Request } from "express";
+import { entityTag, ifMatchSatisfied, isNotModified } from "./etag";
+
+const request = (headers: Record<string, string>) => ({ headers } as unknown as Request);
+
+const etag = entityTag("b1", 3);
+
+test("ETag berubah mengikuti version dan selalu berupa ETag kuat", () => {
+  assert.match(etag, /^"[A-Za-z0-9_-]{20}"$/);
+  assert.equal(entityTag("b1", 3), etag);
+  assert.notEqual(entityTag("b1", 4), etag);
+});
+
+test("If-None-Match yang cocok (termasuk ETag lemah) berarti 304", () => {
+  assert.equal(isNotModified(request({}), etag), false);
+  assert.equal(isNotModified(request({ "if-none-match": `"lama", ${etag}` }), etag), true);
+  assert.equal(isNotModified(request({ "if-none-match": `W/${etag}` }), etag), true);
+  assert.equal(isNotModified(request({ "if-none-match": "*" }), etag), true);
+  assert.equal(isNotModified(request({ "if-none-match": '"lama"' }), etag), false);
+});
+
+test("If-Match yang tidak cocok berarti 412, ETag lemah tidak pernah cocok", () => {
+  assert.equal(ifMatchSatisfied(request({}), etag), true);
+  assert.equal(ifMatchSatisfied(request({ "if-match": etag }), etag), true);
+  assert.equal(ifMatchSatisfied(request({ "if-match": " *" }), etag), true);
+  assert.equal(ifMatchSatisfied(request({ "if-match": entityTag("b1", 2) }), etag), false);
+  assert.equal(ifMatchSatisfied(request({ "if-match": `W/${etag}` }), etag), false);
+});
@@ -0,0 +1,22 @@
+import { createHash } from "crypto";
+import { Request } from "express";
+
+// ETag kuat dari bagian-bagian yang menentukan isi response (mis. id + version)
+export const entityTag = (...parts: unknown[]) =>
+  `"${createHash("sha1").update(parts.map(String).join("|")).digest("base64url").slice(0, 20)}"`;
+
+const headerTags = (header: string) => header.split(",").map((tag) => tag.trim());
+
+// GET: If-None-Match cocok → client masih punya versi terbaru (304). Perbandingan lemah (W/ diabaikan).
+export const isNotModified = (req: Request, etag: string) => {
+  const header = req.headers["if-none-match"];
+  if (!header) return false;
+  return header.trim() === "*" || headerTags(header).some((tag) => tag.replace(/^W\//, "") === etag);
+};
+
+// PATCH / DELETE: tanpa If-Match selalu lolos. Perbandingan kuat, jadi ETag lemah (W/) tidak pernah cocok.
+export const ifMatchSatisfied = (req: Request, etag: string) => {
+  const header = req.headers["if-match"];
+  if (!header) return true;
+  return header.trim() === "*" || headerTags(header).includes(etag);
+};
@@ -0,0 +1,9 @@
+// Error dengan status HTTP, dilempar dari service lalu diterjemahkan oleh controller
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isValidIsbn10, isValidIsbn13, parseIsbn } from "./isbn";
+
+test("ISBN-10 dan ISBN-13 dinormalisasi ke pasangan yang sama", () => {
+  const expected = { isbn_13: "9780132350884", isbn_10: "0132350882" };
+
+  assert.deepEqual(parseIsbn("0-13-235088-2"), expected);
+  assert.deepEqual(parseIsbn("978-0-13-235088-4"), expected);
+  assert.deepEqual(parseIsbn(" 978 0132350884 "), expected);
+});
+
+test("check digit X pada ISBN-10 diterima (huruf kecil juga)", () => {
+  assert.equal(isValidIsbn10("080442957X"), true);
+  assert.deepEqual(parseIsbn("0-8044-2957-x"), { isbn_13: "9780804429573", isbn_10: "080442957X" });
+});
+
+test("ISBN-13 berawalan 979 tidak punya padanan ISBN-10", () => {
+  assert.equal(isValidIsbn13("9791090636071"), true);
+  assert.deepEqual(parseIsbn("979-10-90636-07-1"), { isbn_13: "9791090636071", isbn_10: null });
+});
+
+test("checksum atau format salah ditolak", () => {
+  assert.equal(parseIsbn("0132350883"), null);
+  assert.equal(parseIsbn("9780132350885"), null);
+  assert.equal(parseIsbn("9770132350884"), null);
+  assert.equal(parseIsbn("abc"), null);
+  assert.equal(isValidIsbn10("X132350882"), false);
+});
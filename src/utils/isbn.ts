@@ -0,0 +1,48 @@
+// Hapus tanda hubung / spasi, huruf x jadi X
+const clean = (raw: string) => String(raw).replace(/[\s-]/g, "").toUpperCase();
+
+export const isValidIsbn10 = (isbn: string) => {
+  if (!/^\d{9}[\dX]$/.test(isbn)) return false;
+  const sum = isbn
+    .split("")
+    .reduce((acc, char, i) => acc + (char === "X" ? 10 : Number(char)) * (10 - i), 0);
+  return sum % 11 === 0;
+};
+
+const isbn13CheckDigit = (first12: string) => {
+  const sum = first12
+    .split("")
+    .reduce((acc, char, i) => acc + Number(char) * (i % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+};
+
+export const isValidIsbn13 = (isbn: string) =>
+  /^97[89]\d{10}$/.test(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12];
+
+const isbn10To13 = (isbn10: string) => {
+  const first12 = `978${isbn10.slice(0, 9)}`;
+  return first12 + isbn13CheckDigit(first12);
+};
+
+// Hanya ISBN-13 berawalan 978 yang punya padanan ISBN-10
+const isbn13To10 = (isbn13: string) => {
+  if (!isbn13.startsWith("978")) return null;
+  const first9 = isbn13.slice(3, 12);
+  const sum = first9.split("").reduce((acc, char, i) => acc + Number(char) * (10 - i), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return first9 + (check === 10 ? "X" : String(check));
+};
+
+// Terima ISBN-10 atau ISBN-13 (boleh dengan tanda hubung). null jika checksum tidak valid.
+export const parseIsbn = (raw: string) => {
+  const isbn = clean(raw);
+
+  if (isbn.length === 10 && isValidIsbn10(isbn)) {
+    return { isbn_13: isbn10To13(isbn), isbn_10: isbn };
+  }
+  if (isbn.length === 13 && isValidIsbn13(isbn)) {
+    return { isbn_13: isbn, isbn_10: isbn13To10(isbn) };
+  }
+
+  return null;
+};
@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { HttpError } from "./httpError";
+import {
+  MAX_LIMIT,
+  decodeCursor,
+  encodeCursor,
+  keysetWhere,
+  parseDirection,
+  parseLimit,
+} from "./pagination";
+
+const forged = (payload: unknown) => Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+const isBadRequest = (err: unknown) => err instanceof HttpError && err.status === 400;
+
+test("parseDirection hanya menerima asc / desc", () => {
+  assert.equal(parseDirection(undefined, "orderById"), undefined);
+  assert.equal(parseDirection("", "orderById"), undefined);
+  assert.equal(parseDirection("desc", "orderById"), "desc");
+  assert.throws(() => parseDirection("DROP", "orderById"), isBadRequest);
+  assert.throws(() => parseDirection(["asc", "desc"], "orderById"), isBadRequest);
+});
+
+test("decodeCursor menolak nilai cursor dengan tipe yang salah", () => {
+  const valid = encodeCursor({ f: "created_at", d: "asc", v: "2025-01-01T00:00:00.000Z", id: "a" });
+  assert.equal(decodeCursor(valid, "created_at", "asc", "date").id, "a");
+
+  assert.throws(
+    () => decodeCursor(forged({ f: "created_at", d: "asc", v: "bukan-tanggal", id: "a" }), "created_at", "asc", "date"),
+    isBadRequest
+  );
+  assert.throws(
+    () => decodeCursor(forged({ f: "id", d: "asc", v: 5, id: "a" }), "id", "asc"),
+    isBadRequest
+  );
+  assert.throws(
+    () => decodeCursor(forged({ f: "price", d: "desc", v: "murah", id: "a" }), "price", "desc", "number"),
+    isBadRequest
+  );
+  assert.throws(
+    () => decodeCursor(forged({ f: "id", d: "asc", v: "a", id: { not: "" } }), "id", "asc"),
+    isBadRequest
+  );
+  assert.throws(() => decodeCursor(forged(null), "id", "asc"), isBadRequest);
+});
+
+test("limit dibatasi antara 1 dan MAX_LIMIT", () => {
+  assert.equal(parseLimit(undefined), 10);
+  assert.equal(parseLimit("abc", 20), 20);
+  assert.equal(parseLimit("-5"), 1);
+  assert.equal(parseLimit(String(MAX_LIMIT + 1)), MAX_LIMIT);
+});
+
+test("cursor yang di-encode bisa di-decode kembali untuk urutan yang sama saja", () => {
+  const cursor = encodeCursor({ f: "price", d: "desc", v: 50000, id: "b1" });
+
+  assert.deepEqual(decodeCursor(cursor, "price", "desc", "number"), {
+    f: "price",
+    d: "desc",
+    v: 50000,
+    id: "b1",
+  });
+  assert.throws(() => decodeCursor(cursor, "price", "asc", "number"), isBadRequest);
+  assert.throws(() => decodeCursor(cursor, "title", "desc"), isBadRequest);
+  assert.throws(() => decodeCursor("bukan-base64-json", "price", "desc"), isBadRequest);
+});
+
+test("keysetWhere memakai id sebagai tie-breaker dan membalik operator saat mundur", () => {
+  assert.deepEqual(keysetWhere("price", "asc", 100, "b1", false), {
+    OR: [{ price: { gt: 100 } }, { price: 100, id: { gt: "b1" } }],
+  });
+  assert.deepEqual(keysetWhere("price", "desc", 100, "b1", false), {
+    OR: [{ price: { lt: 100 } }, { price: 100, id: { lt: "b1" } }],
+  });
+  assert.deepEqual(keysetWhere("price", "desc", 100, "b1", true), {
+    OR: [{ price: { gt: 100 } }, { price: 100, id: { gt: "b1" } }],
+  });
+});
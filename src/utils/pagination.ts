@@ -0,0 +1,73 @@
+import { HttpError } from "./httpError";
+
+// limit dibatasi di server agar satu request tidak bisa menarik seluruh tabel
+export const MAX_LIMIT = Number(process.env.PAGINATION_MAX_LIMIT) || 100;
+
+export const parseLimit = (value: unknown, fallback = 10) =>
+  Math.min(MAX_LIMIT, Math.max(1, Number(value) || fallback));
+
+// Arah urutan dari query string. Kosong → undefined, selain "asc"/"desc" → 400.
+export const parseDirection = (value: unknown, name: string): "asc" | "desc" | undefined => {
+  if (value === undefined || value === "") return undefined;
+  if (value === "asc" || value === "desc") return value;
+  throw new HttpError(400, `${name} harus "asc" atau "desc".`);
+};
+
+// Tipe nilai field urutan, untuk memeriksa isi cursor sebelum masuk ke query
+export type CursorValueType = "string" | "number" | "date";
+
+const isCursorValue = (value: unknown, type: CursorValueType) => {
+  if (type === "number") return typeof value === "number" && Number.isFinite(value);
+  if (typeof value !== "string") return false;
+  return type === "string" || !Number.isNaN(new Date(value).getTime());
+};
+
+export interface CursorPayload {
+  f: string; // field urutan
+  d: "asc" | "desc"; // arah urutan
+  v: string | number; // nilai field pada item terakhir/pertama
+  id: string; // tie-breaker agar urutan stabil
+}
+
+// Cursor opaque: JSON → base64url. Klien tidak perlu (dan tidak boleh) membaca isinya.
+export const encodeCursor = (payload: CursorPayload) =>
+  Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+export const decodeCursor = (
+  cursor: string,
+  field: string,
+  direction: "asc" | "desc",
+  valueType: CursorValueType = "string"
+) => {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, "base64url").toString()) as CursorPayload;
+    if (
+      payload?.f === field &&
+      payload.d === direction &&
+      typeof payload.id === "string" &&
+      isCursorValue(payload.v, valueType)
+    ) {
+      return payload;
+    }
+  } catch (err) {
+    // jatuh ke error di bawah
+  }
+
+  throw new HttpError(400, "Cursor tidak valid atau tidak sesuai dengan urutan yang diminta.");
+};
+
+// Kondisi keyset Prisma: item setelah (atau sebelum) cursor pada urutan (field, id)
+export const keysetWhere = (
+  field: string,
+  direction: "asc" | "desc",
+  value: unknown,
+  id: string,
+  backwards: boolean
+) => {
+  const forwardOp = direction === "asc" ? "gt" : "lt";
+  const op = backwards ? (forwardOp === "gt" ? "lt" : "gt") : forwardOp;
+
+  return {
+    OR: [{ [field]: { [op]: value } }, { [field]: value, id: { [op]: id } }],
+  };
+};
@@ -0,0 +1,39 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+
+// Dibaca saat dipakai (bukan saat import) supaya nilai dari dotenv sudah termuat
+export const getJwtSecret = () => process.env.JWT_SECRET || "supersecretkey";
+
+export const getAccessTokenTtl = () => process.env.ACCESS_TOKEN_TTL || "15m";
+export const getRefreshTokenTtlDays = () => Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+export const signAccessToken = (
+  user: { id: string; role: string },
+  sessionId: string,
+  twoFactorVerified = false
+) =>
+  jwt.sign(
+    { id: user.id, role: user.role, sid: sessionId, mfa: twoFactorVerified },
+    getJwtSecret(),
+    { expiresIn: getAccessTokenTtl() as jwt.SignOptions["expiresIn"] }
+  );
+
+// Token sementara antara langkah password dan langkah kode 2FA saat login
+export const signTwoFactorChallenge = (userId: string) =>
+  jwt.sign({ id: userId, purpose: "2fa" }, getJwtSecret(), { expiresIn: "5m" });
+
+// Kembalikan user id jika challenge valid, null jika tidak
+export const verifyTwoFactorChallenge = (token: string): string | null => {
+  try {
+    const decoded = jwt.verify(token, getJwtSecret()) as any;
+    return decoded.purpose === "2fa" ? decoded.id : null;
+  } catch (err) {
+    return null;
+  }
+};
+
+// Token acak untuk refresh token, reset password, dll. Yang disimpan di DB hanya hash-nya.
+export const generateOpaqueToken = () => crypto.randomBytes(48).toString("hex");
+
+export const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
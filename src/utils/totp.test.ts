@@ -0,0 +1,43 @@
+import { afterEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { generateTotpSecret, totpUri, verifyTotp } from "./totp";
+
+// Vektor uji RFC 6238 (SHA-1): secret ASCII "12345678901234567890", T = 59 detik → 94287082
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const CODE_AT_59S = "287082";
+
+const at = (seconds: number) => mock.method(Date, "now", () => seconds * 1000);
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+test("kode sesuai vektor uji RFC 6238 diterima dan mengembalikan counter-nya", () => {
+  at(59);
+  assert.equal(verifyTotp(RFC_SECRET, CODE_AT_59S), 1);
+  assert.equal(verifyTotp(RFC_SECRET, "287 082"), 1);
+});
+
+test("kode yang counter-nya sudah dipakai tidak bisa diputar ulang di dalam window", () => {
+  // Periode berikutnya: kode lama masih di dalam window
+  at(89);
+  assert.equal(verifyTotp(RFC_SECRET, CODE_AT_59S), 1);
+  assert.equal(verifyTotp(RFC_SECRET, CODE_AT_59S, 1), null);
+  assert.equal(verifyTotp(RFC_SECRET, CODE_AT_59S, 0), 1);
+});
+
+test("kode di luar window atau formatnya salah ditolak", () => {
+  at(59 + 90);
+  assert.equal(verifyTotp(RFC_SECRET, CODE_AT_59S), null);
+  assert.equal(verifyTotp(RFC_SECRET, "abcdef"), null);
+  assert.equal(verifyTotp(RFC_SECRET, "12345"), null);
+});
+
+test("secret baru berformat base32 dan URI otpauth tidak memakai +", () => {
+  const secret = generateTotpSecret();
+  assert.match(secret, /^[A-Z2-7]{32}$/);
+
+  const uri = totpUri(secret, "budi@example.com", "Toko Buku");
+  assert.ok(uri.startsWith("otpauth://totp/Toko%20Buku%3Abudi%40example.com?"));
+  assert.ok(!uri.includes("+"));
+});
@@ -0,0 +1,97 @@
+import crypto from "crypto";
+
+// TOTP sesuai RFC 6238 (SHA-1, 6 digit, periode 30 detik) → kompatibel dengan Google Authenticator dkk.
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const PERIOD_SECONDS = 30;
+const DIGITS = 6;
+
+const base32Encode = (buffer: Buffer) => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string) => {
+  const clean = input.replace(/=+$/, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Secret base32 tidak valid.");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+const hotp = (secret: string, counter: number) => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(buffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+
+  return code.toString().padStart(DIGITS, "0");
+};
+
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(20));
+
+// window = jumlah periode sebelum/sesudah yang masih diterima (toleransi jam tidak sinkron).
+// Mengembalikan counter (time step) yang cocok, atau null. Counter <= lastCounter ditolak
+// supaya kode yang sudah dipakai tidak bisa diputar ulang di dalam window (RFC 6238 §5.2).
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  lastCounter: number | null = null,
+  window = 1
+) => {
+  const normalized = String(code).replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const counter = Math.floor(Date.now() / 1000 / PERIOD_SECONDS);
+  for (let i = -window; i <= window; i++) {
+    if (lastCounter !== null && counter + i <= lastCounter) continue;
+    const expected = hotp(secret, counter + i);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return counter + i;
+    }
+  }
+
+  return null;
+};
+
+export const totpUri = (secret: string, accountName: string, issuer: string) => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(PERIOD_SECONDS),
+  });
+
+  // Sebagian aplikasi authenticator tidak mengenali "+" sebagai spasi
+  return `otpauth://totp/${label}?${params.toString().replace(/\+/g, "%20")}`;
+};